@@ -0,0 +1,184 @@
+import type { Clock, ClockTimer } from './types';
+
+/**
+ * Clock backed by `Date.now()` and the global timer functions.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (timer) => clearTimeout(timer as NodeJS.Timeout),
+  setInterval: (callback, interval) => setInterval(callback, interval),
+  clearInterval: (timer) => clearInterval(timer as NodeJS.Timeout),
+};
+
+interface VirtualTimer {
+  /** Creation order, breaking ties between timers due at the same time */
+  sequence: number;
+  /** Virtual time in milliseconds the timer fires at */
+  due: number;
+  /** Repeat interval in milliseconds (null for one-shot timers) */
+  interval: number | null;
+  callback: () => unknown;
+}
+
+/**
+ * Clock whose time only moves when it is advanced explicitly.
+ * Timers fire in order of their due time while the clock is advanced, and
+ * the work they start is given the chance to settle before the next one fires.
+ *
+ * @example
+ * ```typescript
+ * const clock = new VirtualClock(new Date('2030-01-01T00:00:00Z'));
+ * const driver = new MemoryDriver({ clock });
+ * await clock.advanceBy(60 * 60 * 1000);
+ * ```
+ */
+export class VirtualClock implements Clock {
+  private time: number;
+  private sequence = 0;
+  private timers = new Set<VirtualTimer>();
+  private running = new Set<Promise<unknown>>();
+
+  /**
+   * Create a new virtual clock.
+   * @param start - Initial time (default: the current system time)
+   */
+  public constructor(start: number | Date = Date.now()) {
+    this.time = start instanceof Date ? start.getTime() : start;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public setTimeout(callback: () => unknown, delay: number): ClockTimer {
+    return this.addTimer(callback, Math.max(0, delay || 0), null);
+  }
+
+  public clearTimeout(timer: ClockTimer): void {
+    this.timers.delete(timer as VirtualTimer);
+  }
+
+  public setInterval(callback: () => unknown, interval: number): ClockTimer {
+    // Like the global setInterval, intervals shorter than 1ms are raised to 1ms
+    const period = Math.max(1, interval || 0);
+    return this.addTimer(callback, period, period);
+  }
+
+  public clearInterval(timer: ClockTimer): void {
+    this.timers.delete(timer as VirtualTimer);
+  }
+
+  /**
+   * Number of timers that have not fired or been cleared yet.
+   */
+  public get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Move the clock forward, firing every timer due up to the given time.
+   * @param time - Time to move the clock to, as timestamp in milliseconds or Date
+   */
+  public async advanceTo(time: number | Date): Promise<void> {
+    const target = time instanceof Date ? time.getTime() : time;
+    if (target < this.time) {
+      throw new RangeError(
+        `Cannot move the clock back from ${new Date(this.time).toISOString()} to ${new Date(target).toISOString()}`
+      );
+    }
+
+    // Work started before the clock moves settles at the current time
+    await this.flush();
+
+    for (;;) {
+      const timer = this.nextDueTimer(target);
+      if (!timer) break;
+
+      this.time = timer.due;
+      if (timer.interval === null) {
+        this.timers.delete(timer);
+      } else {
+        timer.due += timer.interval;
+      }
+
+      this.fire(timer);
+      await this.flush();
+    }
+
+    this.time = target;
+    await this.flush();
+  }
+
+  /**
+   * Move the clock forward by a duration, firing every timer due in that period.
+   * @param ms - Duration in milliseconds
+   */
+  public advanceBy(ms: number): Promise<void> {
+    if (!(ms >= 0)) {
+      throw new RangeError(`Cannot advance the clock by ${ms}ms`);
+    }
+    return this.advanceTo(this.time + ms);
+  }
+
+  /**
+   * Wait for the asynchronous work started by fired timers to finish.
+   * Needed only when that work waits for real I/O; everything else has
+   * already settled when `advanceTo()` or `advanceBy()` resolves.
+   */
+  public async settle(): Promise<void> {
+    while (this.running.size > 0) {
+      await Promise.allSettled(this.running);
+    }
+  }
+
+  private addTimer(
+    callback: () => unknown,
+    delay: number,
+    interval: number | null
+  ): VirtualTimer {
+    const timer: VirtualTimer = {
+      sequence: this.sequence++,
+      due: this.time + delay,
+      interval,
+      callback,
+    };
+    this.timers.add(timer);
+    return timer;
+  }
+
+  private nextDueTimer(target: number): VirtualTimer | undefined {
+    let next: VirtualTimer | undefined;
+    for (const timer of this.timers) {
+      if (timer.due > target) continue;
+      if (
+        !next ||
+        timer.due < next.due ||
+        (timer.due === next.due && timer.sequence < next.sequence)
+      ) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  private fire(timer: VirtualTimer): void {
+    const result = timer.callback();
+    if (!(result instanceof Promise)) return;
+
+    const running = result.then(
+      () => undefined,
+      () => undefined
+    );
+    this.running.add(running);
+    running.then(() => this.running.delete(running));
+  }
+
+  /**
+   * Let promise chains started by a timer run until they wait on I/O or on
+   * another timer.
+   */
+  private flush(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+  }
+}
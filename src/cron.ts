@@ -1,17 +1,45 @@
 import type { Driver } from './driver/driver';
-import type { CronHandler, ScheduleInput } from './types';
+import type {
+  CronEventMap,
+  CronHandler,
+  JobListOptions,
+  RetryConfig,
+  RunHistoryOptions,
+  ScheduleInput,
+  ScheduleOptions,
+  RescheduleOptions,
+  ShutdownHookOptions,
+  StopOptions,
+  TriggerOptions,
+  PreviewOptions,
+  UpcomingOptions,
+} from './types';
 import { SqliteDriver } from './driver/sqlite.driver';
+import { EventEmitter } from 'node:events';
 
 /**
  * High-level service for managing cron jobs.
- * Provides a convenient interface for scheduling, managing, and monitoring cron jobs.
+ * Provides a convenient interface for scheduling, managing, and monitoring cron jobs,
+ * and emits typed job lifecycle events (see {@link CronEventMap}).
+ *
+ * @example
+ * ```typescript
+ * cronService.on('job:failed', ({ identifier, error }) => {
+ *   console.error(`${identifier} failed:`, error);
+ * });
+ * ```
  */
-export class CronService {
+export class CronService extends EventEmitter<CronEventMap> {
+  private shutdownHooks = new Map<NodeJS.Signals, () => void>();
+
   /**
    * Create a new CronService instance.
    * @param driver - The driver to use for job storage and execution
    */
-  public constructor(private driver: Driver) {}
+  public constructor(private driver: Driver) {
+    super();
+    this.driver.setEmitter?.(this);
+  }
 
   /**
    * Change the underlying driver for this service.
@@ -20,10 +48,12 @@ export class CronService {
    */
   public async setDriver(driver: Driver) {
     if (this.driver) {
+      this.driver.setEmitter?.(null);
       await this.driver.destroy?.();
     }
 
     this.driver = driver;
+    this.driver.setEmitter?.(this);
 
     await this.driver.init?.();
   }
@@ -38,24 +68,73 @@ export class CronService {
     }
   }
 
+  /**
+   * Register a named handler that jobs can reference by name.
+   * Jobs scheduled with a named handler are rebound to it after a restart.
+   * @param name - Unique name of the handler
+   * @param handler - Function to execute when a job using this handler runs
+   */
+  public define<T = any>(name: string, handler: CronHandler<T>) {
+    this.driver.define(name, handler);
+  }
+
   /**
    * Schedule a new cron job for execution.
-   * @param scheduleInput - Cron expression, timestamp, or Date object
+   * @param scheduleInput - Cron expression, timestamp, Date object, or interval schedule
    * @param identifier - Unique identifier for the job
-   * @param handler - Function to execute when the job runs
-   * @returns Promise resolving to the job ID
+   * @param handler - Function to execute when the job runs, or the name of a registered handler
+   * @param options - Additional scheduling options such as the job payload
+   * @returns Promise resolving to the job ID, or the ID of the existing job when
+   * `onConflict` keeps it
    */
-  public async schedule(
+  public async schedule<T = any>(
     scheduleInput: ScheduleInput,
     identifier: string,
-    handler: CronHandler
+    handler: CronHandler<T> | string,
+    options?: ScheduleOptions<T>
   ) {
     await this.ensureDriverInitialized();
-    return this.driver.schedule(scheduleInput, identifier, handler);
+    return this.driver.schedule(scheduleInput, identifier, handler, options);
+  }
+
+  /**
+   * Replace the payload of an existing job.
+   * @param identifier - Unique identifier of the job
+   * @param payload - New JSON-serializable payload
+   * @returns Promise resolving to true if the payload was updated, false if not found
+   */
+  public async updatePayload<T = any>(identifier: string, payload: T) {
+    await this.ensureDriverInitialized();
+    return this.driver.updatePayload(identifier, payload);
+  }
+
+  /**
+   * Change the schedule of an existing job in place.
+   * The job keeps its id, run count, history and other settings. Completed
+   * one-time jobs become active again; paused and failed jobs keep their status.
+   * A pending retry of the previous schedule is dropped.
+   * @param identifier - Unique identifier of the job
+   * @param scheduleInput - New cron expression, timestamp, Date object, or interval schedule
+   * @param options - Time zone of the new cron expression (default: the job's current time zone)
+   * @returns Promise resolving to true if the job was rescheduled, false if not found or cancelled
+   *
+   * @example
+   * ```typescript
+   * await cronService.reschedule('daily-backup', '0 3 * * *');
+   * ```
+   */
+  public async reschedule(
+    identifier: string,
+    scheduleInput: ScheduleInput,
+    options?: RescheduleOptions
+  ) {
+    await this.ensureDriverInitialized();
+    return this.driver.reschedule(identifier, scheduleInput, options);
   }
 
   /**
    * Cancel a scheduled job and remove it from execution.
+   * Executions of the job running in this process are aborted.
    * @param identifier - Unique identifier of the job to cancel
    * @returns Promise resolving to true if job was cancelled, false if not found
    */
@@ -67,6 +146,7 @@ export class CronService {
   /**
    * Pause a scheduled job without removing it.
    * The job can be resumed later using the resume method.
+   * Executions of the job running in this process are aborted.
    * @param identifier - Unique identifier of the job to pause
    * @returns Promise resolving to true if job was paused, false if not found
    */
@@ -77,8 +157,12 @@ export class CronService {
 
   /**
    * Resume a previously paused job.
+   * Its consecutive failures are reset, so a job paused after reaching
+   * `maxConsecutiveFailures` gets a fresh start.
+   * Only paused jobs can be resumed; failed jobs are made active again with
+   * `requeue()`.
    * @param identifier - Unique identifier of the job to resume
-   * @returns Promise resolving to true if job was resumed, false if not found
+   * @returns Promise resolving to true if job was resumed, false if not found or not paused
    */
   public async resume(identifier: string) {
     await this.ensureDriverInitialized();
@@ -105,6 +189,76 @@ export class CronService {
     return this.driver.getJobStatus(identifier);
   }
 
+  /**
+   * List jobs matching the given filters, one page at a time.
+   * Pass the returned `nextCursor` as `cursor` to fetch the next page.
+   * @param options - Filters, sort order and paging options
+   * @returns Promise resolving to a page of jobs
+   *
+   * @example
+   * ```typescript
+   * let cursor: string | undefined;
+   * do {
+   *   const page = await cronService.list({ tags: ['billing'], cursor });
+   *   page.jobs.forEach((job) => console.log(job.identifier, job.next_run));
+   *   cursor = page.nextCursor ?? undefined;
+   * } while (cursor);
+   * ```
+   */
+  public async list(options?: JobListOptions) {
+    await this.ensureDriverInitialized();
+    return this.driver.list(options);
+  }
+
+  /**
+   * List dead-lettered jobs, i.e. jobs in the `failed` state, one page at a time.
+   * @param options - Filters, sort order and paging options
+   * @returns Promise resolving to a page of failed jobs
+   */
+  public async listDeadLetters(options?: Omit<JobListOptions, 'status'>) {
+    await this.ensureDriverInitialized();
+    return this.driver.listDeadLetters(options);
+  }
+
+  /**
+   * Make a dead-lettered job active again.
+   * Its consecutive failures are reset; one-time jobs run right away and
+   * recurring jobs continue with their next occurrence.
+   * @param identifier - Unique identifier of the failed job
+   * @returns Promise resolving to true if the job was requeued, false if not found or not failed
+   */
+  public async requeue(identifier: string) {
+    await this.ensureDriverInitialized();
+    return this.driver.requeue(identifier);
+  }
+
+  /**
+   * Run a job right away, outside of its schedule.
+   * The run goes through the job's overlap policy, concurrency limits, retry
+   * policy and run history like a scheduled occurrence, but leaves the job's
+   * next run and status untouched. Jobs can be triggered while the service is
+   * stopped too; retries of such a run are kept until the service is started.
+   * @param identifier - Unique identifier of the job
+   * @param options - Payload override and whether the run counts towards the run count
+   * @returns Promise resolving to true if the run was started, false if the job
+   * was not found, is cancelled, has no handler, or the run was skipped because
+   * the job is already running
+   *
+   * @example
+   * ```typescript
+   * await cronService.trigger('daily-report', {
+   *   payloadOverride: { date: '2030-01-01' },
+   * });
+   * ```
+   */
+  public async trigger<T = any>(
+    identifier: string,
+    options?: TriggerOptions<T>
+  ) {
+    await this.ensureDriverInitialized();
+    return this.driver.trigger(identifier, options);
+  }
+
   /**
    * Get the number of times a job has been executed.
    * @param identifier - Unique identifier of the job
@@ -115,6 +269,27 @@ export class CronService {
     return this.driver.getJobRunCount(identifier);
   }
 
+  /**
+   * Get the run history of a job, newest first.
+   * @param identifier - Unique identifier of the job
+   * @param options - Paging options
+   * @returns Promise resolving to the recorded runs
+   */
+  public async getJobHistory(identifier: string, options?: RunHistoryOptions) {
+    await this.ensureDriverInitialized();
+    return this.driver.getJobHistory(identifier, options);
+  }
+
+  /**
+   * Get the most recent failed runs across all jobs, newest first.
+   * @param options - Paging options
+   * @returns Promise resolving to the failed runs
+   */
+  public async getRecentFailures(options?: RunHistoryOptions) {
+    await this.ensureDriverInitialized();
+    return this.driver.getRecentFailures(options);
+  }
+
   /**
    * Get the total number of active jobs.
    * @returns Promise resolving to the count of active jobs
@@ -142,6 +317,47 @@ export class CronService {
     return this.driver.getTotalRunsCount();
   }
 
+  /**
+   * Compute the upcoming occurrences of a schedule, or of an active job when
+   * given its identifier. Occurrences of a job start at its next run.
+   * @param target - Identifier of a job, or a cron expression, timestamp, Date or interval schedule
+   * @param options - Number of occurrences, time range and time zone
+   * @returns Promise resolving to the occurrences as timestamps in milliseconds
+   *
+   * @example
+   * ```typescript
+   * const times = await cronService.preview('0 9 * * 1-5', {
+   *   count: 5,
+   *   timezone: 'Europe/Berlin',
+   * });
+   * const nextRuns = await cronService.preview('daily-backup');
+   * ```
+   */
+  public async preview(target: ScheduleInput, options?: PreviewOptions) {
+    await this.ensureDriverInitialized();
+    return this.driver.preview(target, options);
+  }
+
+  /**
+   * List the upcoming runs of all active jobs as a single timeline.
+   * @param options - Time range and maximum number of runs
+   * @returns Promise resolving to the runs ordered by time, then identifier
+   *
+   * @example
+   * ```typescript
+   * const runs = await cronService.getUpcoming({
+   *   until: Date.now() + 24 * 60 * 60 * 1000,
+   * });
+   * runs.forEach(({ identifier, scheduledFor }) =>
+   *   console.log(new Date(scheduledFor).toISOString(), identifier)
+   * );
+   * ```
+   */
+  public async getUpcoming(options: UpcomingOptions) {
+    await this.ensureDriverInitialized();
+    return this.driver.getUpcoming(options);
+  }
+
   /**
    * Get the number of jobs scheduled to run within the look-ahead window.
    * @returns Promise resolving to the count of jobs in the execution window
@@ -160,6 +376,14 @@ export class CronService {
     return this.driver.getJobStats();
   }
 
+  /**
+   * Get the depth and wait times of the execution queue.
+   * @returns Object containing running and queued executions and wait times
+   */
+  public getQueueStats() {
+    return this.driver.getQueueStats();
+  }
+
   /**
    * Remove old cancelled jobs from the database.
    * @param olderThanDays - Remove jobs older than this many days (default: 30)
@@ -218,8 +442,23 @@ export class CronService {
    * Get retry configuration and error handling status.
    * @returns Object containing retry settings and error handler status
    */
-  public getRetryConfig() {
-    return this.driver.getRetryConfig();
+  public getRetryConfig(): RetryConfig;
+
+  /**
+   * Get the effective retry configuration of a job, i.e. its own retry policy
+   * merged with the service defaults.
+   * @param identifier - Unique identifier of the job
+   * @returns Promise resolving to the retry settings or null if not found
+   */
+  public getRetryConfig(identifier: string): Promise<RetryConfig | null>;
+  public getRetryConfig(identifier?: string) {
+    if (identifier === undefined) {
+      return this.driver.getRetryConfig();
+    }
+
+    return this.ensureDriverInitialized().then(() =>
+      this.driver.getRetryConfig(identifier)
+    );
   }
 
   /**
@@ -252,10 +491,59 @@ export class CronService {
   /**
    * Stop the cron service and cease processing jobs.
    * This method should be called to gracefully shut down the service.
+   * Running executions are aborted unless `drain` is set, in which case they
+   * are allowed to finish until the drain timeout elapses.
+   * @param options - Whether and how long to wait for running executions
+   *
+   * @example
+   * ```typescript
+   * // Give running jobs up to 30 seconds to finish
+   * await cronService.stop({ drain: true, timeout: 30000 });
+   * ```
    */
-  public async stop() {
-    await this.ensureDriverInitialized();
-    return this.driver.stop();
+  public async stop(options?: StopOptions) {
+    if (!this.driver) {
+      throw new RangeError('Driver is not set');
+    }
+
+    return this.driver.stop(options);
+  }
+
+  /**
+   * Stop the service gracefully when the process receives a termination signal.
+   * Running executions are drained by default. Once the service has stopped,
+   * the signal is raised again so the process terminates as it normally would,
+   * unless the application has its own listeners for the signal.
+   * @param options - Signals to handle and stop options (default: drain without timeout)
+   */
+  public enableShutdownHooks(options: ShutdownHookOptions = {}) {
+    const { signals = ['SIGTERM', 'SIGINT'], ...stopOptions } = options;
+
+    this.disableShutdownHooks();
+
+    for (const signal of signals) {
+      const hook = () => {
+        this.disableShutdownHooks();
+        this.stop({ drain: true, ...stopOptions }).finally(() => {
+          if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+          }
+        });
+      };
+
+      process.once(signal, hook);
+      this.shutdownHooks.set(signal, hook);
+    }
+  }
+
+  /**
+   * Remove the signal listeners registered with enableShutdownHooks.
+   */
+  public disableShutdownHooks() {
+    for (const [signal, hook] of this.shutdownHooks) {
+      process.removeListener(signal, hook);
+    }
+    this.shutdownHooks.clear();
   }
 }
 
@@ -265,19 +553,30 @@ export class CronService {
  */
 export const cronService = new CronService(new SqliteDriver({ db: 'cron.db' }));
 
+/**
+ * Convenience function to register a named handler.
+ * @param name - Unique name of the handler
+ * @param handler - Function to execute when a job using this handler runs
+ */
+export function define<T = any>(name: string, handler: CronHandler<T>) {
+  cronService.define(name, handler);
+}
+
 /**
  * Convenience function to schedule a new cron job.
- * @param pattern - Cron expression, timestamp, or Date object
+ * @param pattern - Cron expression, timestamp, Date object, or interval schedule
  * @param identifier - Unique identifier for the job
- * @param handler - Function to execute when the job runs
+ * @param handler - Function to execute when the job runs, or the name of a registered handler
+ * @param options - Additional scheduling options such as the job payload
  * @returns Promise resolving to the job ID
  */
-export function schedule(
+export function schedule<T = any>(
   pattern: ScheduleInput,
   identifier: string,
-  handler: CronHandler
+  handler: CronHandler<T> | string,
+  options?: ScheduleOptions<T>
 ) {
-  return cronService.schedule(pattern, identifier, handler);
+  return cronService.schedule(pattern, identifier, handler, options);
 }
 
 /**
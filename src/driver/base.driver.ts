@@ -0,0 +1,2890 @@
+import type { Driver } from './driver';
+import type { QueueStats } from './execution-queue';
+import type {
+  Clock,
+  ClockTimer,
+  ConflictPolicy,
+  CronEventEmitter,
+  CronEventMap,
+  CronJob,
+  CronJobRun,
+  CronJobRunOutcome,
+  CronHandler,
+  JobListOptions,
+  JobListPage,
+  CronHandlerContext,
+  ScheduleInput,
+  ScheduleOptions,
+  ScheduleType,
+  RescheduleOptions,
+  CronServiceConfig,
+  PreviewOptions,
+  UpcomingOptions,
+  UpcomingRun,
+  TriggerOptions,
+  StopOptions,
+  MisfirePolicy,
+  OverlapPolicy,
+  RetryConfig,
+  RetryPolicy,
+  RetryStrategy,
+  RunHistoryOptions,
+} from '../types';
+import * as crypto from 'node:crypto';
+import {
+  getNextCronRun,
+  getNextIntervalRun,
+  isValidTimezone,
+  parseInterval,
+} from '../schedule';
+import { ExecutionQueue } from './execution-queue';
+import { JobExistsError, JobTimeoutError, NonRetryableError } from '../errors';
+import { getRetryDelay } from '../retry';
+import { systemClock } from '../clock';
+
+/**
+ * A job as kept in storage, with its payload, tags and retry policy serialized.
+ */
+export interface JobRecord extends Omit<
+  CronJob,
+  'payload' | 'tags' | 'retry_policy'
+> {
+  payload: string | null;
+  tags: string;
+  retry_policy: string | null;
+  retry_delay: number | null;
+  retry_trigger: string | null;
+}
+
+/**
+ * Filters, order and page of a job listing, as passed to the store.
+ */
+export interface JobQuery {
+  statuses?: CronJob['status'][];
+  identifierPrefix?: string;
+  /** Tags a job must all have */
+  tags?: string[];
+  nextRunBefore?: number;
+  nextRunAfter?: number;
+  orderBy: 'identifier' | 'next_run' | 'created_at';
+  /** Sort value and identifier of the last job of the previous page */
+  after?: [number | null, string];
+  limit: number;
+}
+
+/**
+ * Time range of a search for active jobs whose next run is due.
+ */
+export interface DueJobQuery {
+  /** Only find jobs whose next run is after this time */
+  after?: number;
+  /** Only find jobs whose next run is at or before this time */
+  until: number;
+  /** Only find jobs using this named handler */
+  handlerName?: string;
+  limit?: number;
+}
+
+/**
+ * Filters and page of a run history search, as passed to the store.
+ */
+export interface RunQuery {
+  identifier?: string;
+  outcome?: CronJobRunOutcome;
+  /** Only find runs with an id lower than this */
+  before: number | null;
+  /** Only find runs started at or after this time */
+  since: number | null;
+  limit: number;
+}
+
+/**
+ * Columns describing when a job runs.
+ */
+interface JobSchedule {
+  schedule_type: ScheduleType;
+  cron_expression: string | null;
+  timezone: string | null;
+  interval: number | null;
+  interval_anchor: number | null;
+}
+
+/**
+ * Schedule of a job, as needed to compute its upcoming occurrences.
+ */
+interface ScheduledJob extends JobSchedule {
+  identifier: string;
+  next_run: number;
+  run_count: number;
+  end_at: number | null;
+  max_runs: number | null;
+}
+
+/**
+ * Options of a manual run, stored with its pending retry.
+ */
+interface ManualRun {
+  /** Serialized payload replacing the job's payload (null to use the job's payload) */
+  payload: string | null;
+  /** Whether the run updates the job's run count and last run */
+  countAsRun: boolean;
+}
+
+/**
+ * Retry columns of a job without a pending retry.
+ */
+const NO_RETRY = {
+  retry_at: null,
+  retry_attempt: null,
+  retry_scheduled_for: null,
+  retry_delay: null,
+  retry_trigger: null,
+};
+
+/**
+ * Base class of the built-in drivers.
+ * Implements scheduling, execution, retries and leases on top of the job and
+ * run history storage provided by each driver, so all drivers behave the same.
+ */
+export abstract class BaseDriver implements Driver {
+  private handlers = new Map<string, CronHandler<any>>();
+  private retryFilters = new Map<string, (error: Error) => boolean>();
+  private namedHandlers = new Map<string, CronHandler<any>>();
+  private activeJobs = new Map<string, ClockTimer>();
+  private retryTimers = new Map<string, ClockTimer>();
+  private chunkSize: number;
+  private refreshInterval: number;
+  private lookAheadWindow: number;
+  private timezone: string | null;
+  private refreshTimer: ClockTimer | null = null;
+  private executions = new Map<string, Set<AbortController>>();
+  private leaseRenewalTimer: ClockTimer | null = null;
+  private inFlight = new Set<Promise<void>>();
+  private executionQueue: ExecutionQueue;
+  private emitter: CronEventEmitter | null = null;
+  private isRunning = false;
+  public isInitialized = false;
+
+  // Auto-cleanup properties
+  private autoCleanupEnabled: boolean;
+  private autoCleanupInterval: number;
+  private completedJobsRetentionDays: number;
+  private cancelledJobsRetentionDays: number;
+  private runHistoryRetentionDays: number;
+  private autoCleanupTimer: ClockTimer | null = null;
+
+  // Retry configuration
+  private maxRetryAttempts: number;
+  private retryStrategy: RetryStrategy;
+  private retryBaseDelay: number;
+  private retryMaxDelay: number;
+  private retryIf?: (error: Error) => boolean;
+  private onErrorHandler?: (jobId: string, error: Error) => void;
+  private timeout: number | null;
+  private maxConsecutiveFailures: number | null;
+
+  // Misfire configuration
+  private misfirePolicy: MisfirePolicy;
+  private misfireGraceTime: number;
+
+  // Source of the current time and timers
+  protected clock: Clock;
+
+  // Lease configuration
+  protected workerId: string;
+  protected leaseDuration: number;
+
+  /**
+   * Create a new driver instance.
+   * @param config - Configuration options for the driver
+   */
+  public constructor(config: Omit<CronServiceConfig, 'db'>) {
+    this.clock = config.clock ?? systemClock;
+    this.chunkSize = config.chunkSize || 1000;
+    this.refreshInterval = config.refreshInterval || 24 * 60 * 60 * 1000;
+    this.lookAheadWindow = config.lookAheadWindow || 25 * 60 * 60 * 1000;
+    this.timezone = config.timezone
+      ? this.validateTimezone(config.timezone)
+      : null;
+
+    // Initialize auto-cleanup settings
+    this.autoCleanupEnabled = config.autoCleanup?.enabled ?? true;
+    this.autoCleanupInterval =
+      config.autoCleanup?.interval ?? 24 * 60 * 60 * 1000;
+    this.completedJobsRetentionDays =
+      config.autoCleanup?.completedJobsRetentionDays ?? 7;
+    this.cancelledJobsRetentionDays =
+      config.autoCleanup?.cancelledJobsRetentionDays ?? 30;
+    this.runHistoryRetentionDays =
+      config.autoCleanup?.runHistoryRetentionDays ?? 30;
+
+    // Initialize retry settings
+    this.validateRetryPolicy(config.retry ?? {});
+    this.maxRetryAttempts = config.retry?.maxAttempts ?? 3;
+    this.retryStrategy = config.retry?.strategy ?? 'exponential';
+    this.retryBaseDelay = config.retry?.baseDelay ?? 1000;
+    this.retryMaxDelay = config.retry?.maxDelay ?? 30000;
+    this.retryIf = config.retry?.retryIf;
+    this.onErrorHandler = config.onError;
+    this.maxConsecutiveFailures =
+      config.maxConsecutiveFailures !== undefined
+        ? this.validateMaxConsecutiveFailures(config.maxConsecutiveFailures)
+        : null;
+    this.timeout =
+      config.timeout !== undefined
+        ? this.validateTimeout(config.timeout)
+        : null;
+
+    // Initialize misfire settings
+    this.misfirePolicy = this.validateMisfirePolicy(
+      config.misfire?.policy ?? 'fire-once'
+    );
+    this.misfireGraceTime = config.misfire?.graceTime ?? 60000;
+
+    // Initialize lease settings
+    this.workerId = config.workerId ?? crypto.randomUUID();
+    this.leaseDuration = config.leaseDuration ?? 60000;
+
+    // Initialize concurrency limits
+    this.executionQueue = new ExecutionQueue(
+      config.concurrency,
+      config.groupConcurrency,
+      this.clock
+    );
+  }
+
+  /**
+   * Initialize the driver and prepare its storage.
+   * This method must be called before using any other driver methods.
+   */
+  public async init(): Promise<void> {
+    if (this.isInitialized) return;
+
+    await this.openStore();
+    this.isInitialized = true;
+  }
+
+  /**
+   * Clean up resources and close the storage.
+   * This method should be called when the driver is no longer needed.
+   */
+  public async destroy(): Promise<void> {
+    await this.stop();
+
+    // Ensure auto-cleanup is stopped
+    this.stopAutoCleanup();
+
+    if (this.isInitialized) {
+      this.closeStore();
+    }
+
+    this.handlers.clear();
+    this.retryFilters.clear();
+    this.activeJobs.clear();
+    this.isInitialized = false;
+  }
+
+  /**
+   * Attach an event emitter that receives job lifecycle events.
+   * @param emitter - Emitter to publish events on, or null to detach
+   */
+  public setEmitter(emitter: CronEventEmitter | null): void {
+    this.emitter = emitter;
+  }
+
+  private emit<K extends keyof CronEventMap>(
+    event: K,
+    ...args: CronEventMap[K]
+  ): void {
+    if (!this.emitter) return;
+
+    // A throwing listener must not interrupt job bookkeeping
+    try {
+      (this.emitter.emit as (event: K, ...args: CronEventMap[K]) => boolean)(
+        event,
+        ...args
+      );
+    } catch (error) {
+      process.stdout.write(
+        `Listener for ${event} threw: ${error instanceof Error ? error.message : String(error)}\n`
+      );
+    }
+  }
+
+  private async ensureInitialized() {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+  }
+
+  private parseScheduleInput(
+    input: ScheduleInput,
+    timezone: string | null
+  ): {
+    schedule: JobSchedule;
+    specificTime: number | null;
+    nextRun: number;
+  } {
+    const now = this.clock.now();
+
+    if (typeof input === 'string') {
+      try {
+        const nextRun = getNextCronRun(input, {
+          from: now,
+          timezone: timezone ?? this.timezone,
+        });
+        return {
+          schedule: {
+            schedule_type: 'cron',
+            cron_expression: input,
+            timezone,
+            interval: null,
+            interval_anchor: null,
+          },
+          specificTime: null,
+          nextRun,
+        };
+      } catch (error) {
+        throw new Error(`Invalid cron expression: ${input}`);
+      }
+    } else if (typeof input === 'object' && !(input instanceof Date)) {
+      const interval = parseInterval(input.every);
+      const anchor = this.toTimestamp(input.anchor) ?? now;
+      if (!Number.isFinite(anchor)) {
+        throw new RangeError(`Invalid interval anchor: ${input.anchor}`);
+      }
+      return {
+        schedule: {
+          schedule_type: 'interval',
+          cron_expression: null,
+          timezone: null,
+          interval,
+          interval_anchor: anchor,
+        },
+        specificTime: null,
+        nextRun: getNextIntervalRun(interval, anchor, now),
+      };
+    } else {
+      const timestamp = input instanceof Date ? input.getTime() : input;
+      if (timestamp <= now) {
+        throw new Error('Specific time must be in the future');
+      }
+      return {
+        schedule: {
+          schedule_type: 'once',
+          cron_expression: null,
+          timezone: null,
+          interval: null,
+          interval_anchor: null,
+        },
+        specificTime: timestamp,
+        nextRun: timestamp,
+      };
+    }
+  }
+
+  private serializePayload(payload: unknown): string | null {
+    if (payload === undefined) return null;
+
+    let serialized: string | undefined;
+    try {
+      serialized = JSON.stringify(payload);
+    } catch (error) {
+      throw new TypeError(
+        `Job payload must be JSON-serializable: ${(error as Error).message}`
+      );
+    }
+
+    if (serialized === undefined) {
+      throw new TypeError('Job payload must be JSON-serializable');
+    }
+
+    return serialized;
+  }
+
+  private parsePayload(payload: string | null): unknown {
+    return payload === null ? undefined : JSON.parse(payload);
+  }
+
+  private toCronJob(job: JobRecord): CronJob {
+    return {
+      ...job,
+      payload: this.parsePayload(job.payload),
+      tags: JSON.parse(job.tags),
+      retry_policy: job.retry_policy ? JSON.parse(job.retry_policy) : null,
+    };
+  }
+
+  /**
+   * Validate a retry policy.
+   * @returns The policy without its predicate, as stored with the job
+   */
+  private validateRetryPolicy(
+    policy: RetryPolicy
+  ): Omit<RetryPolicy, 'retryIf'> {
+    const { maxAttempts, strategy, baseDelay, maxDelay } = policy;
+
+    if (
+      maxAttempts !== undefined &&
+      !(Number.isInteger(maxAttempts) && maxAttempts >= 1)
+    ) {
+      throw new RangeError(`Invalid maximum attempts: ${maxAttempts}`);
+    }
+    if (
+      strategy !== undefined &&
+      ![
+        'fixed',
+        'linear',
+        'exponential',
+        'full-jitter',
+        'decorrelated-jitter',
+      ].includes(strategy)
+    ) {
+      throw new Error(`Invalid retry strategy: ${strategy}`);
+    }
+    for (const delay of [baseDelay, maxDelay]) {
+      if (delay !== undefined && !(delay >= 0)) {
+        throw new RangeError(`Invalid retry delay: ${delay}`);
+      }
+    }
+
+    return { maxAttempts, strategy, baseDelay, maxDelay };
+  }
+
+  /**
+   * Merge the retry policy stored with a job with the service defaults.
+   */
+  private resolveRetryPolicy(
+    storedPolicy: string | null
+  ): Omit<RetryConfig, 'hasRetryIf' | 'hasErrorHandler'> {
+    const policy: Omit<RetryPolicy, 'retryIf'> = storedPolicy
+      ? JSON.parse(storedPolicy)
+      : {};
+    return {
+      maxAttempts: policy.maxAttempts ?? this.maxRetryAttempts,
+      strategy: policy.strategy ?? this.retryStrategy,
+      baseDelay: policy.baseDelay ?? this.retryBaseDelay,
+      maxDelay: policy.maxDelay ?? this.retryMaxDelay,
+    };
+  }
+
+  /**
+   * Decide whether a failed attempt of a job may be retried.
+   */
+  private isRetryable(identifier: string, error: Error): boolean {
+    if (error instanceof NonRetryableError) {
+      return false;
+    }
+
+    const retryIf = this.retryFilters.get(identifier) ?? this.retryIf;
+    if (!retryIf) {
+      return true;
+    }
+
+    try {
+      return retryIf(error);
+    } catch {
+      // A predicate that fails cannot vouch for a retry
+      return false;
+    }
+  }
+
+  private serializeTags(tags: string[] = []): string {
+    for (const tag of tags) {
+      if (typeof tag !== 'string' || tag === '') {
+        throw new TypeError(`Invalid tag: ${String(tag)}`);
+      }
+    }
+    return JSON.stringify([...new Set(tags)]);
+  }
+
+  private validateMisfirePolicy(policy: MisfirePolicy): MisfirePolicy {
+    if (!['fire-once', 'fire-all', 'skip'].includes(policy)) {
+      throw new Error(`Invalid misfire policy: ${policy}`);
+    }
+    return policy;
+  }
+
+  private validateOverlapPolicy(policy: OverlapPolicy): OverlapPolicy {
+    if (!['allow', 'skip', 'queue', 'cancel-previous'].includes(policy)) {
+      throw new Error(`Invalid overlap policy: ${policy}`);
+    }
+    return policy;
+  }
+
+  private validateConflictPolicy(policy: ConflictPolicy): ConflictPolicy {
+    if (!['replace', 'keep', 'error', 'update-handler-only'].includes(policy)) {
+      throw new Error(`Invalid conflict policy: ${policy}`);
+    }
+    return policy;
+  }
+
+  private validateTimeout(timeout: number): number {
+    if (!(timeout > 0)) {
+      throw new RangeError(`Timeout must be a positive number: ${timeout}`);
+    }
+    return timeout;
+  }
+
+  private validateMaxConsecutiveFailures(limit: number): number {
+    if (!(Number.isInteger(limit) && limit >= 1)) {
+      throw new RangeError(`Invalid maximum consecutive failures: ${limit}`);
+    }
+    return limit;
+  }
+
+  /**
+   * Validate the start, end and maximum runs of a job.
+   * @returns The bounds as stored with the job
+   */
+  private validateBounds(
+    options: ScheduleOptions<unknown>,
+    scheduleType: ScheduleType
+  ): { startAt: number | null; endAt: number | null; maxRuns: number | null } {
+    const startAt = this.toTimestamp(options.startAt) ?? null;
+    const endAt = this.toTimestamp(options.endAt) ?? null;
+    const maxRuns = options.maxRuns ?? null;
+
+    if (scheduleType === 'once' && (startAt ?? endAt ?? maxRuns) !== null) {
+      throw new Error(
+        'startAt, endAt and maxRuns apply to recurring jobs only'
+      );
+    }
+    if (startAt !== null && !Number.isFinite(startAt)) {
+      throw new RangeError(`Invalid start time: ${startAt}`);
+    }
+    if (endAt !== null && !Number.isFinite(endAt)) {
+      throw new RangeError(`Invalid end time: ${endAt}`);
+    }
+    if (startAt !== null && endAt !== null && endAt < startAt) {
+      throw new RangeError('End time must not be before the start time');
+    }
+    if (maxRuns !== null && !(Number.isInteger(maxRuns) && maxRuns >= 1)) {
+      throw new RangeError(`Invalid maximum runs: ${maxRuns}`);
+    }
+
+    return { startAt, endAt, maxRuns };
+  }
+
+  private validateTimezone(timezone: string): string {
+    if (!isValidTimezone(timezone)) {
+      throw new Error(`Invalid timezone: ${timezone}`);
+    }
+    return timezone;
+  }
+
+  private calculateNextRun(
+    cronExpression: string,
+    timezone: string | null,
+    from?: number
+  ): number {
+    try {
+      return getNextCronRun(cronExpression, {
+        from,
+        timezone: timezone ?? this.timezone,
+      });
+    } catch (error) {
+      throw new Error(
+        `Error calculating next run for cron expression: ${cronExpression}`
+      );
+    }
+  }
+
+  /**
+   * Calculate the occurrence of a job following the given time.
+   * @returns Timestamp of the occurrence, or null for one-time jobs
+   */
+  private calculateFollowingRun(
+    schedule: JobSchedule,
+    from: number
+  ): number | null {
+    if (schedule.schedule_type === 'cron') {
+      return this.calculateNextRun(
+        schedule.cron_expression!,
+        schedule.timezone,
+        from
+      );
+    }
+    if (schedule.schedule_type === 'interval') {
+      return getNextIntervalRun(
+        schedule.interval!,
+        schedule.interval_anchor!,
+        from
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Calculate the next occurrence of a recurring job within its start and end.
+   * @returns Timestamp of the occurrence, or null if none is left before the end
+   */
+  private calculateBoundedNextRun(
+    schedule: JobSchedule,
+    from: number,
+    startAt: number | null,
+    endAt: number | null
+  ): number | null {
+    const nextRun = this.calculateFollowingRun(
+      schedule,
+      startAt !== null ? Math.max(from, startAt - 1) : from
+    );
+    return nextRun !== null && endAt !== null && nextRun > endAt
+      ? null
+      : nextRun;
+  }
+
+  /**
+   * Register a named handler that jobs can reference by name.
+   * The handler name is stored with each job, so persisted jobs are rebound
+   * to their handler when the driver starts after a process restart.
+   *
+   * @param name - Unique name of the handler
+   * @param handler - Function to execute when a job using this handler runs
+   *
+   * @example
+   * ```typescript
+   * driver.define('send-digest', async () => {
+   *   await sendDigest();
+   * });
+   *
+   * await driver.schedule('0 8 * * *', 'daily-digest', 'send-digest');
+   * ```
+   */
+  public define<T = any>(name: string, handler: CronHandler<T>): void {
+    this.namedHandlers.set(name, handler);
+
+    // Jobs loaded before their handler was defined are picked up right away
+    if (this.isRunning) {
+      this.scheduleJobsForHandler(name);
+    }
+  }
+
+  private resolveHandler(
+    identifier: string,
+    handlerName: string | null
+  ): CronHandler<any> | undefined {
+    return (
+      this.handlers.get(identifier) ??
+      (handlerName !== null ? this.namedHandlers.get(handlerName) : undefined)
+    );
+  }
+
+  private reportUnknownHandler(
+    identifier: string,
+    handlerName: string | null
+  ): void {
+    const error = new Error(
+      handlerName !== null
+        ? `No handler named "${handlerName}" is defined for job: ${identifier}`
+        : `No handler is bound to job: ${identifier}`
+    );
+
+    if (this.onErrorHandler) {
+      this.onErrorHandler(identifier, error);
+    } else {
+      process.stdout.write(`Job not scheduled: ${error.message}\n`);
+    }
+  }
+
+  /**
+   * Schedule a new cron job for execution.
+   * Supports cron expressions (using cron-parser), specific timestamps and fixed intervals.
+   *
+   * @param scheduleInput - Cron expression, timestamp, Date object, or interval schedule
+   * @param identifier - Unique identifier for the job
+   * @param handler - Function to execute when the job runs, or the name of a handler registered with `define()`
+   * @param options - Additional scheduling options such as the job payload
+   * @returns Promise resolving to the job ID, or the ID of the existing job when
+   * `onConflict` keeps it
+   *
+   * @example
+   * ```typescript
+   * // Schedule a job that runs every minute
+   * await driver.schedule('* * * * *', 'my-job', async () => {
+   *   console.log('Job executed!');
+   * });
+   *
+   * // Schedule a job that runs every hour
+   * await driver.schedule('0 * * * *', 'hourly-job', async () => {
+   *   console.log('Hourly job executed!');
+   * });
+   *
+   * // Schedule a one-time job
+   * await driver.schedule(Date.now() + 60000, 'one-time-job', async () => {
+   *   console.log('One-time job executed!');
+   * });
+   *
+   * // Schedule a job that runs every 90 seconds
+   * await driver.schedule({ every: '90s' }, 'interval-job', async () => {
+   *   console.log('Interval job executed!');
+   * });
+   *
+   * // Schedule a job with a named handler that survives restarts
+   * await driver.schedule('0 8 * * *', 'daily-digest', 'send-digest');
+   *
+   * // Schedule a job with a payload passed to the handler
+   * await driver.schedule(
+   *   '0 9 * * 1',
+   *   'weekly-report-42',
+   *   async (payload: { userId: number }) => {
+   *     await sendReport(payload.userId);
+   *   },
+   *   { payload: { userId: 42 } }
+   * );
+   *
+   * // Schedule a job at every startup without overwriting operator changes
+   * await driver.schedule('0 2 * * *', 'nightly-sync', 'sync', {
+   *   onConflict: 'keep',
+   * });
+   * ```
+   */
+  public async schedule<T = any>(
+    scheduleInput: ScheduleInput,
+    identifier: string,
+    handler: CronHandler<T> | string,
+    options: ScheduleOptions<T> = {}
+  ): Promise<string> {
+    await this.ensureInitialized();
+
+    if (typeof handler === 'string' && !this.namedHandlers.has(handler)) {
+      throw new Error(`Unknown handler: ${handler}`);
+    }
+
+    const id = crypto.randomUUID();
+    const now = this.clock.now();
+    const timezone = options.timezone
+      ? this.validateTimezone(options.timezone)
+      : null;
+    const { schedule, specificTime, ...parsed } = this.parseScheduleInput(
+      scheduleInput,
+      timezone
+    );
+    const { startAt, endAt, maxRuns } = this.validateBounds(
+      options,
+      schedule.schedule_type
+    );
+    const nextRun =
+      schedule.schedule_type !== 'once'
+        ? this.calculateBoundedNextRun(schedule, now, startAt, endAt)
+        : parsed.nextRun;
+    if (nextRun === null) {
+      throw new RangeError('Schedule has no occurrences before the end time');
+    }
+    const handlerName = typeof handler === 'string' ? handler : null;
+    const payload = this.serializePayload(options.payload);
+    if (options.concurrency !== undefined) {
+      ExecutionQueue.validateLimit(options.concurrency);
+    }
+    const misfirePolicy = options.misfire?.policy
+      ? this.validateMisfirePolicy(options.misfire.policy)
+      : null;
+    const overlap = this.validateOverlapPolicy(options.overlap ?? 'skip');
+    const tags = this.serializeTags(options.tags);
+    const maxConsecutiveFailures =
+      options.maxConsecutiveFailures !== undefined
+        ? this.validateMaxConsecutiveFailures(options.maxConsecutiveFailures)
+        : null;
+    const retryPolicy = options.retry
+      ? JSON.stringify(this.validateRetryPolicy(options.retry))
+      : null;
+    const timeout =
+      options.timeout !== undefined
+        ? this.validateTimeout(options.timeout)
+        : null;
+
+    const onConflict = this.validateConflictPolicy(
+      options.onConflict ?? 'replace'
+    );
+
+    // Other policies insert only if the identifier is free, so that two
+    // workers scheduling the same job at startup cannot both replace it
+    const inserted = this.insertJob(
+      {
+        id,
+        ...schedule,
+        specific_time: specificTime,
+        identifier,
+        handler_name: handlerName,
+        payload,
+        status: 'active',
+        next_run: nextRun,
+        last_run: null,
+        run_count: 0,
+        consecutive_failures: 0,
+        max_consecutive_failures: maxConsecutiveFailures,
+        start_at: startAt,
+        end_at: endAt,
+        max_runs: maxRuns,
+        misfire_policy: misfirePolicy,
+        misfire_grace_time: options.misfire?.graceTime ?? null,
+        group_name: options.group ?? null,
+        max_concurrency: options.concurrency ?? null,
+        overlap,
+        tags,
+        timeout,
+        retry_policy: retryPolicy,
+        ...NO_RETRY,
+        lease_owner: null,
+        lease_expires_at: null,
+        created_at: now,
+        updated_at: now,
+      },
+      onConflict === 'replace'
+    );
+
+    if (!inserted) {
+      return this.resolveScheduleConflict(
+        scheduleInput,
+        identifier,
+        handler,
+        options,
+        onConflict
+      );
+    }
+
+    this.bindHandler(identifier, handler, options);
+
+    // A replaced job starts without a pending retry
+    this.clearRetryExecution(identifier);
+
+    this.emit('job:scheduled', { identifier, id, nextRun });
+
+    if (nextRun <= this.clock.now() + this.lookAheadWindow) {
+      this.scheduleJobExecution(identifier, nextRun);
+    }
+
+    if (!this.isRunning) {
+      await this.start();
+    }
+
+    return id;
+  }
+
+  /**
+   * Handle scheduling a job under an identifier that is already taken.
+   * @returns Promise resolving to the ID of the existing job
+   */
+  private async resolveScheduleConflict<T>(
+    scheduleInput: ScheduleInput,
+    identifier: string,
+    handler: CronHandler<T> | string,
+    options: ScheduleOptions<T>,
+    onConflict: ConflictPolicy
+  ): Promise<string> {
+    if (onConflict === 'error') {
+      throw new JobExistsError(identifier);
+    }
+
+    const existing = this.getJob(identifier);
+
+    if (!existing) {
+      // The job was removed between the insert and this lookup
+      return this.schedule(scheduleInput, identifier, handler, options);
+    }
+
+    if (onConflict === 'update-handler-only') {
+      this.updateJob(identifier, {
+        handler_name: typeof handler === 'string' ? handler : null,
+        updated_at: this.clock.now(),
+      });
+
+      this.bindHandler(identifier, handler, options);
+
+      // The job may not have been armed yet for lack of a handler
+      if (this.isRunning && !this.activeJobs.has(identifier)) {
+        await this.loadAndScheduleChunk();
+      }
+    }
+
+    if (!this.isRunning) {
+      await this.start();
+    }
+
+    return existing.id;
+  }
+
+  /**
+   * Bind the in-memory handler and retry filter of a job.
+   * Named handlers are resolved when the job runs, so only inline handlers are kept.
+   */
+  private bindHandler<T>(
+    identifier: string,
+    handler: CronHandler<T> | string,
+    options: ScheduleOptions<T>
+  ): void {
+    if (typeof handler === 'string') {
+      this.handlers.delete(identifier);
+    } else {
+      this.handlers.set(identifier, handler);
+    }
+
+    if (options.retry?.retryIf) {
+      this.retryFilters.set(identifier, options.retry.retryIf);
+    } else {
+      this.retryFilters.delete(identifier);
+    }
+  }
+
+  /**
+   * Replace the payload of an existing job.
+   * The new payload is passed to the handler from the next execution onwards.
+   * @param identifier - Unique identifier of the job
+   * @param payload - New JSON-serializable payload
+   * @returns Promise resolving to true if the payload was updated, false if not found
+   */
+  public async updatePayload<T = any>(
+    identifier: string,
+    payload: T
+  ): Promise<boolean> {
+    await this.ensureInitialized();
+
+    return this.updateJob(identifier, {
+      payload: this.serializePayload(payload),
+      updated_at: this.clock.now(),
+    });
+  }
+
+  /**
+   * Change the schedule of an existing job in place.
+   * The job keeps its id, run count, history and other settings. Completed
+   * one-time jobs become active again; paused and failed jobs keep their status.
+   * A pending retry of the previous schedule is dropped.
+   * @param identifier - Unique identifier of the job
+   * @param scheduleInput - New cron expression, timestamp, Date object, or interval schedule
+   * @param options - Time zone of the new cron expression (default: the job's current time zone)
+   * @returns Promise resolving to true if the job was rescheduled, false if not found or cancelled
+   */
+  public async reschedule(
+    identifier: string,
+    scheduleInput: ScheduleInput,
+    options: RescheduleOptions = {}
+  ): Promise<boolean> {
+    await this.ensureInitialized();
+
+    const job = this.getJob(identifier);
+
+    if (!job || job.status === 'cancelled') {
+      return false;
+    }
+
+    const timezone =
+      options.timezone !== undefined
+        ? this.validateTimezone(options.timezone)
+        : job.timezone;
+    const { schedule, specificTime, ...parsed } = this.parseScheduleInput(
+      scheduleInput,
+      timezone
+    );
+    const nextRun =
+      schedule.schedule_type !== 'once'
+        ? this.calculateBoundedNextRun(
+            schedule,
+            this.clock.now(),
+            job.start_at,
+            job.end_at
+          )
+        : parsed.nextRun;
+    if (nextRun === null) {
+      throw new RangeError('Schedule has no occurrences before the end time');
+    }
+    const status = job.status === 'completed' ? 'active' : job.status;
+
+    const updated = this.updateJob(
+      identifier,
+      {
+        ...schedule,
+        specific_time: specificTime,
+        next_run: nextRun,
+        status,
+        ...NO_RETRY,
+        updated_at: this.clock.now(),
+      },
+      job.status
+    );
+
+    if (!updated) {
+      return false;
+    }
+
+    this.clearJobExecution(identifier);
+    this.clearRetryExecution(identifier);
+    this.emit('job:rescheduled', { identifier, nextRun });
+
+    if (
+      status === 'active' &&
+      nextRun <= this.clock.now() + this.lookAheadWindow
+    ) {
+      this.scheduleJobExecution(identifier, nextRun);
+    }
+    return true;
+  }
+
+  public async cancel(identifier: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    const updated = this.updateJob(identifier, {
+      status: 'cancelled',
+      updated_at: this.clock.now(),
+    });
+
+    this.clearJobExecution(identifier);
+    this.clearRetryExecution(identifier);
+    this.abortExecutions(identifier, new Error(`Job cancelled: ${identifier}`));
+    this.handlers.delete(identifier);
+    this.retryFilters.delete(identifier);
+
+    if (updated) {
+      this.emit('job:cancelled', { identifier });
+      return true;
+    }
+    return false;
+  }
+
+  public async pause(identifier: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    const updated = this.updateJob(identifier, {
+      status: 'paused',
+      updated_at: this.clock.now(),
+    });
+
+    this.clearJobExecution(identifier);
+    this.clearRetryExecution(identifier);
+    this.abortExecutions(identifier, new Error(`Job paused: ${identifier}`));
+
+    if (updated) {
+      this.emit('job:paused', { identifier });
+      return true;
+    }
+    return false;
+  }
+
+  public async resume(identifier: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    const updated = this.updateJob(
+      identifier,
+      {
+        status: 'active',
+        consecutive_failures: 0,
+        updated_at: this.clock.now(),
+      },
+      'paused'
+    );
+
+    if (updated) {
+      this.emit('job:resumed', { identifier });
+      await this.loadAndScheduleChunk();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Make a dead-lettered job active again.
+   * Its consecutive failures are reset; one-time jobs run right away and
+   * recurring jobs continue with their next occurrence.
+   * @param identifier - Unique identifier of the failed job
+   * @returns Promise resolving to true if the job was requeued, false if not found or not failed
+   */
+  public async requeue(identifier: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    const job = this.getJob(identifier);
+
+    if (!job || job.status !== 'failed') {
+      return false;
+    }
+
+    // One-time jobs, and recurring jobs past their end, run once more right
+    // away and then complete
+    const now = this.clock.now();
+    const nextRun =
+      this.calculateBoundedNextRun(job, now, job.start_at, job.end_at) ?? now;
+
+    const updated = this.updateJob(
+      identifier,
+      {
+        status: 'active',
+        next_run: nextRun,
+        consecutive_failures: 0,
+        ...NO_RETRY,
+        updated_at: now,
+      },
+      'failed'
+    );
+
+    if (!updated) {
+      return false;
+    }
+
+    this.clearRetryExecution(identifier);
+    this.emit('job:requeued', { identifier, nextRun });
+    if (nextRun <= now + this.lookAheadWindow) {
+      this.scheduleJobExecution(identifier, nextRun);
+    }
+    return true;
+  }
+
+  /**
+   * Run a job right away, outside of its schedule.
+   * The run goes through the job's overlap policy, concurrency limits, retry
+   * policy and run history like a scheduled occurrence, but leaves the job's
+   * next run and status untouched. Jobs can be triggered while the service is
+   * stopped too; retries of such a run are kept until the service is started.
+   * @param identifier - Unique identifier of the job
+   * @param options - Payload override and whether the run counts towards the run count
+   * @returns Promise resolving to true if the run was started, false if the job
+   * was not found, is cancelled, has no handler, or the run was skipped because
+   * the job is already running
+   */
+  public async trigger<T = any>(
+    identifier: string,
+    options: TriggerOptions<T> = {}
+  ): Promise<boolean> {
+    await this.ensureInitialized();
+
+    const payload =
+      options.payloadOverride !== undefined
+        ? this.serializePayload(options.payloadOverride)
+        : null;
+
+    const job = this.getJob(identifier);
+    const handler = job && this.resolveHandler(identifier, job.handler_name);
+    if (!handler) {
+      return false;
+    }
+
+    const now = this.clock.now();
+
+    const running = this.executions.has(identifier);
+    if (running || job.retry_at !== null) {
+      if (job.overlap === 'skip') {
+        this.recordSkippedRun(job.id, identifier, now);
+        this.emit('job:skipped', { identifier, scheduledFor: now });
+        return false;
+      }
+
+      if (job.overlap === 'cancel-previous') {
+        this.abortExecutions(
+          identifier,
+          new Error('Superseded by a newer run of the job')
+        );
+        this.dropRetry(identifier);
+      }
+    }
+
+    // Another worker sharing the database may be running the job
+    if (!this.claimManualRun(identifier)) {
+      return false;
+    }
+
+    this.emit('job:triggered', { identifier });
+    void this.trackExecution(
+      identifier,
+      this.runExecution(identifier, job, handler, now, 1, {
+        payload,
+        countAsRun: options.countAsRun ?? false,
+      })
+    );
+    return true;
+  }
+
+  public async get(identifier: string): Promise<CronJob | null> {
+    await this.ensureInitialized();
+
+    const job = this.getJob(identifier);
+    return job ? this.toCronJob(job) : null;
+  }
+
+  public async getJobStatus(identifier: string): Promise<CronJob | null> {
+    return this.get(identifier);
+  }
+
+  /**
+   * List jobs matching the given filters, one page at a time.
+   * Pass the returned `nextCursor` as `cursor` to fetch the next page.
+   * @param options - Filters, sort order and paging options
+   * @returns Promise resolving to a page of jobs
+   */
+  public async list(options: JobListOptions = {}): Promise<JobListPage> {
+    await this.ensureInitialized();
+
+    const orderBy = options.orderBy ?? 'identifier';
+    if (!['identifier', 'next_run', 'created_at'].includes(orderBy)) {
+      throw new Error(`Invalid list order: ${orderBy}`);
+    }
+
+    const limit = options.limit ?? 50;
+    if (!(Number.isInteger(limit) && limit >= 1)) {
+      throw new RangeError(`Invalid limit: ${limit}`);
+    }
+
+    // Fetch one extra job to find out whether there is a next page
+    const rows = this.queryJobs({
+      statuses:
+        options.status === undefined || Array.isArray(options.status)
+          ? options.status
+          : [options.status],
+      identifierPrefix: options.identifierPrefix,
+      tags: options.tags,
+      nextRunBefore: options.nextRunBefore,
+      nextRunAfter: options.nextRunAfter,
+      orderBy,
+      after: options.cursor
+        ? this.decodeListCursor(options.cursor, orderBy)
+        : undefined,
+      limit: limit + 1,
+    });
+    const jobs = rows.slice(0, limit).map((row) => this.toCronJob(row));
+    const last = jobs[jobs.length - 1];
+
+    return {
+      jobs,
+      nextCursor:
+        rows.length > limit
+          ? this.encodeListCursor(
+              orderBy,
+              orderBy === 'identifier' ? null : last[orderBy],
+              last.identifier
+            )
+          : null,
+    };
+  }
+
+  /**
+   * List dead-lettered jobs, i.e. jobs in the `failed` state, one page at a time.
+   * @param options - Filters, sort order and paging options
+   * @returns Promise resolving to a page of failed jobs
+   */
+  public async listDeadLetters(
+    options: Omit<JobListOptions, 'status'> = {}
+  ): Promise<JobListPage> {
+    return this.list({ ...options, status: 'failed' });
+  }
+
+  /**
+   * Encode the position after the last job of a page.
+   * The sort field is included so a cursor cannot be used with another order.
+   */
+  private encodeListCursor(
+    orderBy: string,
+    value: number | null,
+    identifier: string
+  ): string {
+    return Buffer.from(JSON.stringify([orderBy, value, identifier])).toString(
+      'base64url'
+    );
+  }
+
+  private decodeListCursor(
+    cursor: string,
+    orderBy: string
+  ): [number | null, string] {
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8')
+      );
+      if (
+        Array.isArray(decoded) &&
+        decoded[0] === orderBy &&
+        (decoded[1] === null || typeof decoded[1] === 'number') &&
+        typeof decoded[2] === 'string'
+      ) {
+        return [decoded[1], decoded[2]];
+      }
+    } catch {
+      // Reported below
+    }
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+
+  /**
+   * Get the run history of a job, newest first.
+   * Pass the id of the last run of a page as `before` to fetch the next page.
+   * @param identifier - Unique identifier of the job
+   * @param options - Paging options
+   * @returns Promise resolving to the recorded runs
+   */
+  public async getJobHistory(
+    identifier: string,
+    options: RunHistoryOptions = {}
+  ): Promise<CronJobRun[]> {
+    await this.ensureInitialized();
+
+    return this.findRuns({
+      identifier,
+      before: options.before ?? null,
+      since: options.since ?? null,
+      limit: options.limit ?? 50,
+    });
+  }
+
+  /**
+   * Get the most recent failed runs across all jobs, newest first.
+   * @param options - Paging options
+   * @returns Promise resolving to the failed runs
+   */
+  public async getRecentFailures(
+    options: RunHistoryOptions = {}
+  ): Promise<CronJobRun[]> {
+    await this.ensureInitialized();
+
+    return this.findRuns({
+      outcome: 'failure',
+      before: options.before ?? null,
+      since: options.since ?? null,
+      limit: options.limit ?? 50,
+    });
+  }
+
+  public async getJobRunCount(identifier: string): Promise<number> {
+    await this.ensureInitialized();
+
+    return this.getJob(identifier)?.run_count || 0;
+  }
+
+  public async getActiveJobsCount(): Promise<number> {
+    await this.ensureInitialized();
+
+    return this.countJobs('active');
+  }
+
+  public async getCompletedJobsCount(): Promise<number> {
+    await this.ensureInitialized();
+
+    return this.countJobs('completed');
+  }
+
+  public async getTotalRunsCount(): Promise<number> {
+    await this.ensureInitialized();
+
+    return this.countJobsByStatus().reduce(
+      (total, { runs }) => total + runs,
+      0
+    );
+  }
+
+  /**
+   * Compute the upcoming occurrences of a schedule, or of an active job when
+   * given its identifier. Occurrences of a job start at its next run.
+   * @param target - Identifier of a job, or a cron expression, timestamp, Date or interval schedule
+   * @param options - Number of occurrences, time range and time zone
+   * @returns Promise resolving to the occurrences as timestamps in milliseconds
+   */
+  public async preview(
+    target: ScheduleInput,
+    options: PreviewOptions = {}
+  ): Promise<number[]> {
+    await this.ensureInitialized();
+
+    const count = options.count ?? 10;
+    if (!(Number.isInteger(count) && count >= 1)) {
+      throw new RangeError(`Invalid preview count: ${count}`);
+    }
+    const from = this.toTimestamp(options.from) ?? this.clock.now();
+    const until = this.toTimestamp(options.until) ?? Infinity;
+
+    const job = typeof target === 'string' ? this.getJob(target) : undefined;
+
+    if (job) {
+      // Only active jobs have upcoming runs
+      if (job.status !== 'active') return [];
+
+      return this.collectJobOccurrences(job, from, until, count);
+    }
+
+    if (typeof target === 'object' && !(target instanceof Date)) {
+      const { schedule, nextRun } = this.parseScheduleInput(target, null);
+      return this.collectOccurrences(schedule, nextRun, from, until, count);
+    }
+
+    if (typeof target !== 'string') {
+      const timestamp = target instanceof Date ? target.getTime() : target;
+      return this.collectOccurrences(
+        {
+          schedule_type: 'once',
+          cron_expression: null,
+          timezone: null,
+          interval: null,
+          interval_anchor: null,
+        },
+        timestamp,
+        from,
+        until,
+        count
+      );
+    }
+
+    const timezone = options.timezone
+      ? this.validateTimezone(options.timezone)
+      : null;
+    let first: number;
+    try {
+      first = getNextCronRun(target, {
+        from: from - 1,
+        timezone: timezone ?? this.timezone,
+      });
+    } catch (error) {
+      throw new Error(`Unknown job or invalid cron expression: ${target}`);
+    }
+
+    return this.collectOccurrences(
+      {
+        schedule_type: 'cron',
+        cron_expression: target,
+        timezone,
+        interval: null,
+        interval_anchor: null,
+      },
+      first,
+      from,
+      until,
+      count
+    );
+  }
+
+  /**
+   * List the upcoming runs of all active jobs as a single timeline.
+   * @param options - Time range and maximum number of runs
+   * @returns Promise resolving to the runs ordered by time, then identifier
+   */
+  public async getUpcoming(options: UpcomingOptions): Promise<UpcomingRun[]> {
+    await this.ensureInitialized();
+
+    const limit = options.limit ?? 100;
+    if (!(Number.isInteger(limit) && limit >= 1)) {
+      throw new RangeError(`Invalid limit: ${limit}`);
+    }
+    const from = this.toTimestamp(options.from) ?? this.clock.now();
+    const until = this.toTimestamp(options.until)!;
+
+    const jobs = this.findDueJobs({ until });
+
+    const runs: UpcomingRun[] = [];
+    for (const job of jobs) {
+      const occurrences = this.collectJobOccurrences(job, from, until, limit);
+      for (const scheduledFor of occurrences) {
+        runs.push({ identifier: job.identifier, scheduledFor });
+      }
+    }
+
+    return runs
+      .sort(
+        (a, b) =>
+          a.scheduledFor - b.scheduledFor ||
+          (a.identifier < b.identifier ? -1 : 1)
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Collect the upcoming occurrences of a job within a time range, stopping at
+   * the job's end and maximum runs.
+   */
+  private collectJobOccurrences(
+    job: ScheduledJob,
+    from: number,
+    until: number,
+    limit: number
+  ): number[] {
+    if (job.schedule_type === 'once') {
+      return this.collectOccurrences(job, job.next_run, from, until, limit);
+    }
+
+    return this.collectOccurrences(
+      job,
+      job.next_run,
+      from,
+      job.end_at !== null ? Math.min(until, job.end_at) : until,
+      job.max_runs !== null
+        ? Math.min(limit, job.max_runs - job.run_count)
+        : limit
+    );
+  }
+
+  /**
+   * Collect the occurrences of a schedule within a time range.
+   * @param schedule - Schedule to collect the occurrences of
+   * @param first - First occurrence of the schedule
+   * @param from - Earliest occurrence to return
+   * @param until - Latest occurrence to return
+   * @param limit - Maximum number of occurrences to return
+   */
+  private collectOccurrences(
+    schedule: JobSchedule,
+    first: number,
+    from: number,
+    until: number,
+    limit: number
+  ): number[] {
+    const occurrences: number[] = [];
+    let next: number | null = first;
+
+    // Skip straight to the range instead of walking through earlier occurrences
+    if (next < from) {
+      next = this.calculateFollowingRun(schedule, from - 1);
+    }
+
+    while (next !== null && next <= until && occurrences.length < limit) {
+      occurrences.push(next);
+      next = this.calculateFollowingRun(schedule, next);
+    }
+
+    return occurrences;
+  }
+
+  private toTimestamp(time: number | Date | undefined): number | undefined {
+    return time instanceof Date ? time.getTime() : time;
+  }
+
+  public async getJobsInWindow(): Promise<number> {
+    await this.ensureInitialized();
+
+    return this.countJobs('active', this.clock.now() + this.lookAheadWindow);
+  }
+
+  public async getJobStats(): Promise<{
+    total: number;
+    active: number;
+    paused: number;
+    cancelled: number;
+    completed: number;
+    failed: number;
+    totalRuns: number;
+  }> {
+    await this.ensureInitialized();
+
+    const results = this.countJobsByStatus();
+
+    const stats = {
+      total: 0,
+      active: 0,
+      paused: 0,
+      cancelled: 0,
+      completed: 0,
+      failed: 0,
+      totalRuns: 0,
+    };
+
+    for (const result of results) {
+      stats.total += result.count;
+      stats.totalRuns += result.runs;
+
+      switch (result.status) {
+        case 'active':
+          stats.active = result.count;
+          break;
+        case 'paused':
+          stats.paused = result.count;
+          break;
+        case 'cancelled':
+          stats.cancelled = result.count;
+          break;
+        case 'completed':
+          stats.completed = result.count;
+          break;
+        case 'failed':
+          stats.failed = result.count;
+          break;
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Clean up old cancelled jobs that are older than the specified number of days.
+   * @param olderThanDays - Number of days after which cancelled jobs should be removed (default: 30)
+   * @returns Number of jobs that were removed
+   */
+  public async cleanupOldJobs(olderThanDays: number = 30): Promise<number> {
+    await this.ensureInitialized();
+
+    const cutoff = this.clock.now() - olderThanDays * 24 * 60 * 60 * 1000;
+    const removed = this.deleteJobs('cancelled', cutoff);
+    this.pruneOrphanedRuns();
+
+    this.emit('cleanup', { completed: 0, cancelled: removed });
+    return removed;
+  }
+
+  /**
+   * Clean up completed jobs that are older than the specified number of days.
+   * @param olderThanDays - Number of days after which completed jobs should be removed (default: 7)
+   * @returns Number of jobs that were removed
+   */
+  public async cleanupCompletedJobs(
+    olderThanDays: number = 7
+  ): Promise<number> {
+    await this.ensureInitialized();
+
+    const cutoff = this.clock.now() - olderThanDays * 24 * 60 * 60 * 1000;
+    const removed = this.deleteJobs('completed', cutoff);
+    this.pruneOrphanedRuns();
+
+    this.emit('cleanup', { completed: removed, cancelled: 0 });
+    return removed;
+  }
+
+  /**
+   * Clean up both completed and cancelled jobs that are older than the specified number of days.
+   * @param completedOlderThanDays - Number of days after which completed jobs should be removed (default: 7)
+   * @param cancelledOlderThanDays - Number of days after which cancelled jobs should be removed (default: 30)
+   * @returns Object containing the number of completed and cancelled jobs that were removed
+   */
+  public async cleanupAllOldJobs(
+    completedOlderThanDays: number = 7,
+    cancelledOlderThanDays: number = 30
+  ): Promise<{ completed: number; cancelled: number }> {
+    await this.ensureInitialized();
+
+    const completedCutoff =
+      this.clock.now() - completedOlderThanDays * 24 * 60 * 60 * 1000;
+    const cancelledCutoff =
+      this.clock.now() - cancelledOlderThanDays * 24 * 60 * 60 * 1000;
+
+    const removed = {
+      completed: this.deleteJobs('completed', completedCutoff),
+      cancelled: this.deleteJobs('cancelled', cancelledCutoff),
+    };
+
+    this.pruneOrphanedRuns();
+
+    this.emit('cleanup', removed);
+    return removed;
+  }
+
+  /**
+   * Perform automatic cleanup based on configured retention settings.
+   * This method is called periodically when auto-cleanup is enabled.
+   * @returns Object containing the number of completed and cancelled jobs that were removed
+   */
+  private async performAutoCleanup(): Promise<{
+    completed: number;
+    cancelled: number;
+  }> {
+    try {
+      const result = await this.cleanupAllOldJobs(
+        this.completedJobsRetentionDays,
+        this.cancelledJobsRetentionDays
+      );
+
+      const historyCutoff =
+        this.clock.now() - this.runHistoryRetentionDays * 24 * 60 * 60 * 1000;
+      this.deleteRunsFinishedBefore(historyCutoff);
+
+      // Auto-cleanup completed silently
+
+      return result;
+    } catch (error) {
+      // Auto-cleanup error handled silently
+      return { completed: 0, cancelled: 0 };
+    }
+  }
+
+  /**
+   * Start the automatic cleanup timer if enabled.
+   */
+  private startAutoCleanup(): void {
+    if (!this.autoCleanupEnabled || this.autoCleanupTimer) {
+      return;
+    }
+
+    this.autoCleanupTimer = this.clock.setInterval(async () => {
+      await this.performAutoCleanup();
+    }, this.autoCleanupInterval);
+  }
+
+  /**
+   * Stop the automatic cleanup timer.
+   */
+  private stopAutoCleanup(): void {
+    if (this.autoCleanupTimer) {
+      this.clock.clearInterval(this.autoCleanupTimer);
+      this.autoCleanupTimer = null;
+    }
+  }
+
+  /**
+   * Manually trigger auto-cleanup with current settings.
+   * @returns Object containing the number of completed and cancelled jobs that were removed
+   */
+  public async triggerAutoCleanup(): Promise<{
+    completed: number;
+    cancelled: number;
+  }> {
+    return this.performAutoCleanup();
+  }
+
+  /**
+   * Get auto-cleanup configuration and status.
+   * @returns Object containing auto-cleanup settings and current status
+   */
+  public getAutoCleanupStatus(): {
+    enabled: boolean;
+    interval: number;
+    completedJobsRetentionDays: number;
+    cancelledJobsRetentionDays: number;
+    runHistoryRetentionDays: number;
+    isRunning: boolean;
+  } {
+    return {
+      enabled: this.autoCleanupEnabled,
+      interval: this.autoCleanupInterval,
+      completedJobsRetentionDays: this.completedJobsRetentionDays,
+      cancelledJobsRetentionDays: this.cancelledJobsRetentionDays,
+      runHistoryRetentionDays: this.runHistoryRetentionDays,
+      isRunning: this.autoCleanupTimer !== null,
+    };
+  }
+
+  /**
+   * Get retry configuration and error handling status.
+   * With an identifier, the effective policy of that job is reported, i.e. its
+   * own retry policy merged with the service defaults.
+   * @param identifier - Unique identifier of a job
+   * @returns Object containing retry settings and error handler status, or
+   * for a job a promise resolving to them (null if the job is not found)
+   */
+  public getRetryConfig(): RetryConfig;
+  public getRetryConfig(identifier: string): Promise<RetryConfig | null>;
+  public getRetryConfig(
+    identifier?: string
+  ): RetryConfig | Promise<RetryConfig | null> {
+    if (identifier === undefined) {
+      return {
+        maxAttempts: this.maxRetryAttempts,
+        strategy: this.retryStrategy,
+        baseDelay: this.retryBaseDelay,
+        maxDelay: this.retryMaxDelay,
+        hasRetryIf: this.retryIf !== undefined,
+        hasErrorHandler: this.onErrorHandler !== undefined,
+      };
+    }
+
+    return this.getJobRetryConfig(identifier);
+  }
+
+  private async getJobRetryConfig(
+    identifier: string
+  ): Promise<RetryConfig | null> {
+    await this.ensureInitialized();
+
+    const job = this.getJob(identifier);
+
+    if (!job) return null;
+
+    return {
+      ...this.resolveRetryPolicy(job.retry_policy),
+      hasRetryIf:
+        this.retryFilters.has(identifier) || this.retryIf !== undefined,
+      hasErrorHandler: this.onErrorHandler !== undefined,
+    };
+  }
+
+  /**
+   * Get the depth and wait times of the execution queue.
+   * @returns Object containing running and queued executions and wait times
+   */
+  public getQueueStats(): QueueStats {
+    return this.executionQueue.getStats();
+  }
+
+  private scheduleJobExecution(
+    identifier: string,
+    nextRun: number,
+    runAt: number = nextRun
+  ): void {
+    this.clearJobExecution(identifier);
+
+    // Jobs are armed again by start() once the service is running
+    if (!this.isRunning) return;
+
+    const delay = Math.max(0, runAt - this.clock.now());
+
+    const timeout = this.clock.setTimeout(async () => {
+      await this.trackExecution(
+        identifier,
+        this.executeJob(identifier, nextRun)
+      );
+    }, delay);
+
+    this.activeJobs.set(identifier, timeout);
+  }
+
+  private clearJobExecution(identifier: string): void {
+    const timeout = this.activeJobs.get(identifier);
+    if (timeout) {
+      this.clock.clearTimeout(timeout);
+      this.activeJobs.delete(identifier);
+    }
+  }
+
+  private scheduleRetryExecution(
+    identifier: string,
+    retryAt: number,
+    runAt: number = retryAt
+  ): void {
+    this.clearRetryExecution(identifier);
+
+    // Retries are armed again by start() once the service is running
+    if (!this.isRunning) return;
+
+    const delay = Math.max(0, runAt - this.clock.now());
+
+    const timeout = this.clock.setTimeout(async () => {
+      await this.trackExecution(
+        identifier,
+        this.executeRetry(identifier, retryAt)
+      );
+    }, delay);
+
+    this.retryTimers.set(identifier, timeout);
+  }
+
+  private clearRetryExecution(identifier: string): void {
+    const timeout = this.retryTimers.get(identifier);
+    if (timeout) {
+      this.clock.clearTimeout(timeout);
+      this.retryTimers.delete(identifier);
+    }
+  }
+
+  /**
+   * Keep track of an execution until it settles, so stop() can wait for it.
+   * Nothing else awaits the execution, so errors of the driver itself, such as
+   * failing storage, are reported here instead of becoming unhandled rejections.
+   */
+  private async trackExecution(
+    identifier: string,
+    execution: Promise<void>
+  ): Promise<void> {
+    this.inFlight.add(execution);
+    try {
+      await execution;
+    } catch (caught) {
+      const error =
+        caught instanceof Error ? caught : new Error(String(caught));
+
+      if (this.onErrorHandler) {
+        this.onErrorHandler(identifier, error);
+      } else {
+        process.stdout.write(
+          `Job execution errored: ${identifier} - ${error.message}\n`
+        );
+      }
+    } finally {
+      this.inFlight.delete(execution);
+    }
+  }
+
+  private async executeJob(
+    identifier: string,
+    scheduledFor: number
+  ): Promise<void> {
+    this.activeJobs.delete(identifier);
+
+    const job = this.getJob(identifier);
+    const handler = job && this.resolveHandler(identifier, job.handler_name);
+    if (!handler) {
+      return;
+    }
+
+    const now = this.clock.now();
+    let followingRun: number | null = null;
+
+    if (job.schedule_type !== 'once') {
+      // Runs counted outside of the schedule, e.g. by trigger(), may have
+      // used up the job's maximum runs already
+      if (job.max_runs !== null && job.run_count >= job.max_runs) {
+        this.completeJob(identifier, scheduledFor, now);
+        return;
+      }
+
+      // Under 'fire-all' the following occurrence is computed from the one being
+      // run, so any occurrences missed in the meantime run back to back
+      followingRun = this.calculateBoundedNextRun(
+        job,
+        (job.misfire_policy ?? this.misfirePolicy) === 'fire-all'
+          ? scheduledFor
+          : Math.max(now, scheduledFor),
+        job.start_at,
+        job.end_at
+      );
+
+      // The last occurrence leaves the next run in place, and the job
+      // completes once it finishes
+      if (job.max_runs !== null && job.run_count + 1 >= job.max_runs) {
+        followingRun = null;
+      }
+    }
+
+    // Another worker sharing the database may have claimed this occurrence already
+    if (!this.claimJob(identifier, scheduledFor, followingRun)) {
+      this.followUpUnclaimedJob(identifier);
+      return;
+    }
+
+    // Occurrences that are already due are caught up once this run completes
+    if (
+      followingRun !== null &&
+      followingRun > now &&
+      followingRun <= now + this.lookAheadWindow
+    ) {
+      this.scheduleJobExecution(identifier, followingRun);
+    }
+
+    // A pending retry means the previous occurrence has not finished either
+    const running = this.executions.has(identifier);
+    if (running || job.retry_at !== null) {
+      if (job.overlap === 'skip') {
+        this.recordSkippedRun(job.id, identifier, scheduledFor);
+        this.emit('job:skipped', { identifier, scheduledFor });
+        if (!running) {
+          this.releaseLease(identifier);
+        }
+        return;
+      }
+
+      if (job.overlap === 'cancel-previous') {
+        this.abortExecutions(
+          identifier,
+          new Error('Superseded by a newer run of the job')
+        );
+        this.dropRetry(identifier);
+      }
+    }
+
+    await this.runExecution(identifier, job, handler, scheduledFor, 1);
+  }
+
+  /**
+   * Run the pending retry of a job.
+   * @param identifier - Unique identifier of the job
+   * @param retryAt - Timestamp in milliseconds the retry was scheduled for
+   */
+  private async executeRetry(
+    identifier: string,
+    retryAt: number
+  ): Promise<void> {
+    this.retryTimers.delete(identifier);
+
+    const job = this.getJob(identifier);
+    const handler = job && this.resolveHandler(identifier, job.handler_name);
+    if (!handler) {
+      return;
+    }
+
+    // Another worker sharing the database may have claimed this retry already
+    if (job.retry_at !== retryAt || !this.claimRetry(identifier, retryAt)) {
+      this.followUpUnclaimedRetry(identifier);
+      return;
+    }
+
+    await this.runExecution(
+      identifier,
+      job,
+      handler,
+      job.retry_scheduled_for!,
+      job.retry_attempt!,
+      job.retry_trigger ? JSON.parse(job.retry_trigger) : null
+    );
+  }
+
+  /**
+   * Run one attempt of a claimed occurrence or manual run, then either
+   * schedule the next attempt or record the execution as finished.
+   */
+  private async runExecution(
+    identifier: string,
+    job: JobRecord,
+    handler: CronHandler<any>,
+    scheduledFor: number,
+    attempt: number,
+    manualRun: ManualRun | null = null
+  ): Promise<void> {
+    const controller = new AbortController();
+    const executions =
+      this.executions.get(identifier) ?? new Set<AbortController>();
+    executions.add(controller);
+    this.executions.set(identifier, executions);
+
+    // Keep the leases of running jobs alive while they execute
+    if (!this.leaseRenewalTimer) {
+      this.leaseRenewalTimer = this.clock.setInterval(
+        () => this.renewLeases(),
+        this.leaseDuration / 3
+      );
+    }
+
+    let result: { started: boolean; error: Error | null };
+    try {
+      result = await this.executionQueue.run(
+        {
+          identifier,
+          group: job.group_name,
+          concurrency: job.overlap === 'queue' ? 1 : job.max_concurrency,
+        },
+        () =>
+          this.runAttempt(
+            job.id,
+            identifier,
+            handler,
+            this.parsePayload(
+              manualRun?.payload != null ? manualRun.payload : job.payload
+            ),
+            scheduledFor,
+            attempt,
+            job.timeout ?? this.timeout,
+            controller.signal
+          )
+      );
+    } finally {
+      executions.delete(controller);
+      if (executions.size === 0) {
+        this.executions.delete(identifier);
+      }
+      if (this.executions.size === 0 && this.leaseRenewalTimer) {
+        this.clock.clearInterval(this.leaseRenewalTimer);
+        this.leaseRenewalTimer = null;
+      }
+    }
+
+    const { started, error } = result;
+    const aborted = controller.signal.aborted;
+    const releaseLease = executions.size === 0;
+
+    const policy = this.resolveRetryPolicy(job.retry_policy);
+
+    // Aborted attempts are not retried
+    if (
+      error &&
+      !aborted &&
+      attempt < policy.maxAttempts &&
+      this.isRetryable(identifier, error)
+    ) {
+      const delay = getRetryDelay(
+        policy,
+        attempt,
+        attempt > 1 ? job.retry_delay : null
+      );
+
+      this.scheduleRetry(
+        identifier,
+        attempt + 1,
+        scheduledFor,
+        delay,
+        releaseLease,
+        manualRun
+      );
+      this.emit('job:retry', { identifier, attempt, delay, error });
+      return;
+    }
+
+    // If all attempts failed, handle the error
+    if (error && !aborted) {
+      this.emit('job:failed', { identifier, attempts: attempt, error });
+
+      if (this.onErrorHandler) {
+        this.onErrorHandler(identifier, error);
+      } else {
+        // Default error handling: log to stdout
+        process.stdout.write(
+          `Job execution failed after ${attempt} attempts: ${identifier} - ${error.message}\n`
+        );
+      }
+    }
+
+    this.finishExecution(
+      identifier,
+      scheduledFor,
+      !started ? null : aborted ? 'cancelled' : error ? 'failure' : 'success',
+      releaseLease,
+      error,
+      manualRun
+    );
+  }
+
+  /**
+   * Run a single attempt of a job, recording it in the run history.
+   * Attempts exceeding the timeout fail with a JobTimeoutError.
+   * @returns Whether the handler was started, as opposed to aborted while
+   * queued, and the error the attempt failed with
+   */
+  private async runAttempt(
+    jobId: string,
+    identifier: string,
+    handler: CronHandler<any>,
+    payload: unknown,
+    scheduledFor: number,
+    attempt: number,
+    timeout: number | null,
+    signal: AbortSignal
+  ): Promise<{ started: boolean; error: Error | null }> {
+    // Aborted while waiting in the execution queue
+    if (signal.aborted) {
+      return { started: false, error: null };
+    }
+
+    const runId = this.recordRunStart(jobId, identifier, attempt, scheduledFor);
+    const startedAt = this.clock.now();
+
+    this.emit('job:start', { identifier, attempt, scheduledFor });
+
+    try {
+      await this.runHandlerAttempt(
+        handler,
+        payload,
+        { identifier, attempt, scheduledFor, signal },
+        timeout
+      );
+      this.recordRunEnd(runId, 'success');
+      this.emit('job:success', {
+        identifier,
+        attempt,
+        duration: this.clock.now() - startedAt,
+      });
+      return { started: true, error: null };
+    } catch (error) {
+      const runError =
+        error instanceof Error ? error : new Error(String(error));
+      this.recordRunEnd(
+        runId,
+        signal.aborted ? 'cancelled' : 'failure',
+        runError
+      );
+      return { started: true, error: runError };
+    }
+  }
+
+  /**
+   * Run a single handler attempt.
+   * The attempt settles as soon as its timeout elapses or the execution is
+   * aborted, even if the handler ignores the signal and keeps running.
+   */
+  private runHandlerAttempt(
+    handler: CronHandler<any>,
+    payload: unknown,
+    context: CronHandlerContext,
+    timeout: number | null
+  ): Promise<void> {
+    const controller = new AbortController();
+    const abort = () => controller.abort(context.signal.reason);
+    context.signal.addEventListener('abort', abort);
+
+    const timer =
+      timeout !== null
+        ? this.clock.setTimeout(
+            () =>
+              controller.abort(
+                new JobTimeoutError(context.identifier, timeout)
+              ),
+            timeout
+          )
+        : null;
+
+    return new Promise<void>((resolve, reject) => {
+      const signal = controller.signal;
+      if (signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      signal.addEventListener('abort', () => reject(signal.reason));
+
+      Promise.resolve()
+        .then(() => handler(payload, { ...context, signal }))
+        .then(() => resolve(), reject);
+    }).finally(() => {
+      if (timer) this.clock.clearTimeout(timer);
+      context.signal.removeEventListener('abort', abort);
+    });
+  }
+
+  /**
+   * Abort the executions of a job that are running in this process.
+   * @param identifier - Unique identifier of the job
+   * @param reason - Error the aborted executions fail with
+   */
+  private abortExecutions(identifier: string, reason: Error): void {
+    for (const controller of this.executions.get(identifier) ?? []) {
+      controller.abort(reason);
+    }
+  }
+
+  /**
+   * Record a finished execution on the job and arm its next occurrence.
+   * Occurrences that failed all their attempts count towards the job's
+   * consecutive failures; a recurring job is paused once the limit is reached.
+   * @param identifier - Unique identifier of the job
+   * @param scheduledFor - Timestamp in milliseconds of the finished occurrence
+   * @param outcome - Outcome of the last attempt (null if aborted before it started)
+   * @param releaseLease - Whether no other execution of the job is still in flight
+   * @param error - Error the last attempt failed with
+   * @param manualRun - Options of a manual run, which leaves the job's status untouched
+   */
+  private finishExecution(
+    identifier: string,
+    scheduledFor: number,
+    outcome: 'success' | 'failure' | 'cancelled' | null,
+    releaseLease: boolean,
+    error: Error | null,
+    manualRun: ManualRun | null
+  ): void {
+    // Update job status regardless of success/failure
+    const job = this.getJob(identifier);
+
+    // The job was replaced or its lease was taken over while running
+    if (!job || job.lease_owner !== this.workerId) {
+      return;
+    }
+
+    const now = this.clock.now();
+    const started = outcome !== null && (!manualRun || manualRun.countAsRun);
+    const consecutiveFailures = manualRun
+      ? job.consecutive_failures
+      : outcome === 'success'
+        ? 0
+        : outcome === 'failure'
+          ? job.consecutive_failures + 1
+          : job.consecutive_failures;
+    const maxConsecutiveFailures =
+      job.max_consecutive_failures ?? this.maxConsecutiveFailures;
+
+    // Paused or cancelled jobs keep their status, and aborted one-time jobs
+    // stay active so they run again once the service restarts
+    let newStatus = job.status;
+    if (manualRun) {
+      // Manual runs do not count towards the job's schedule
+    } else if (job.status === 'active' && job.schedule_type === 'once') {
+      if (outcome === 'success') newStatus = 'completed';
+      if (outcome === 'failure') newStatus = 'failed';
+    } else if (
+      job.status === 'active' &&
+      outcome === 'failure' &&
+      maxConsecutiveFailures !== null &&
+      consecutiveFailures >= maxConsecutiveFailures
+    ) {
+      newStatus = 'paused';
+    } else if (
+      job.status === 'active' &&
+      (outcome === 'success' || outcome === 'failure') &&
+      job.next_run <= scheduledFor
+    ) {
+      // Recurring jobs past their end or maximum runs are not advanced
+      // beyond their last occurrence
+      newStatus = 'completed';
+    }
+
+    this.recordExecution(
+      identifier,
+      { started, consecutiveFailures, status: newStatus, now },
+      releaseLease
+    );
+
+    if (newStatus === 'completed') {
+      this.emit('job:completed', { identifier });
+    }
+
+    if (newStatus === 'failed' && error) {
+      this.emit('job:dead-lettered', {
+        identifier,
+        consecutiveFailures,
+        error,
+      });
+    }
+
+    if (newStatus === 'paused' && job.status === 'active' && error) {
+      // The next occurrence may have been armed when this run was claimed
+      this.clearJobExecution(identifier);
+      this.emit('job:paused', { identifier, consecutiveFailures, error });
+    }
+
+    // Arm the next occurrence if it was not already armed when this run was claimed
+    if (
+      newStatus === 'active' &&
+      job.schedule_type !== 'once' &&
+      !this.activeJobs.has(identifier) &&
+      job.next_run <= this.clock.now() + this.lookAheadWindow
+    ) {
+      this.scheduleJobExecution(identifier, job.next_run);
+    }
+  }
+
+  /**
+   * Persist the next attempt of a failed occurrence and arm it.
+   * A job has at most one pending retry; a newer one replaces it.
+   * @param identifier - Unique identifier of the job
+   * @param attempt - Number of the next attempt
+   * @param scheduledFor - Timestamp in milliseconds of the occurrence being retried
+   * @param delay - Delay in milliseconds before the next attempt
+   * @param releaseLease - Whether no other execution of the job is still in flight
+   * @param manualRun - Options of the manual run being retried (null for a scheduled occurrence)
+   */
+  private scheduleRetry(
+    identifier: string,
+    attempt: number,
+    scheduledFor: number,
+    delay: number,
+    releaseLease: boolean,
+    manualRun: ManualRun | null
+  ): void {
+    const now = this.clock.now();
+    const retryAt = now + delay;
+    const stored = this.storeRetry(
+      identifier,
+      {
+        retry_at: retryAt,
+        retry_attempt: attempt,
+        retry_scheduled_for: scheduledFor,
+        retry_delay: delay,
+        retry_trigger: manualRun ? JSON.stringify(manualRun) : null,
+      },
+      now,
+      releaseLease
+    );
+
+    if (stored && retryAt <= now + this.lookAheadWindow) {
+      this.scheduleRetryExecution(identifier, retryAt);
+    }
+  }
+
+  /**
+   * Drop the pending retry of a job.
+   */
+  private dropRetry(identifier: string): void {
+    this.clearRetryExecution(identifier);
+
+    this.updateJob(identifier, NO_RETRY);
+  }
+
+  /**
+   * Re-arm a retry that could not be claimed, like followUpUnclaimedJob.
+   */
+  private followUpUnclaimedRetry(identifier: string): void {
+    const job = this.getJob(identifier);
+
+    if (!job || job.status !== 'active' || job.retry_at === null) return;
+
+    const now = this.clock.now();
+    if (job.lease_owner !== null && job.lease_expires_at! > now) {
+      this.scheduleRetryExecution(
+        identifier,
+        job.retry_at,
+        job.lease_expires_at!
+      );
+    } else if (job.retry_at <= now + this.lookAheadWindow) {
+      this.scheduleRetryExecution(identifier, job.retry_at);
+    }
+  }
+
+  /**
+   * Arm the pending retries due within the look-ahead window, including
+   * overdue ones, e.g. from before a restart.
+   * @param handlerName - Only arm retries of jobs using this named handler
+   */
+  private scheduleRetries(handlerName?: string): void {
+    const jobs = this.findDueRetries({
+      until: this.clock.now() + this.lookAheadWindow,
+      handlerName,
+      limit: this.chunkSize,
+    });
+
+    for (const job of jobs) {
+      if (this.retryTimers.has(job.identifier)) {
+        continue;
+      }
+
+      if (this.resolveHandler(job.identifier, job.handler_name)) {
+        this.scheduleRetryExecution(job.identifier, job.retry_at!);
+      } else {
+        this.reportUnknownHandler(job.identifier, job.handler_name);
+      }
+    }
+  }
+
+  /**
+   * Re-arm a job whose occurrence could not be claimed.
+   * If another worker still holds the lease, check again once it expires so the
+   * job is picked up if that worker crashed; otherwise follow the job's
+   * current next run.
+   */
+  private followUpUnclaimedJob(identifier: string): void {
+    const job = this.getJob(identifier);
+
+    if (!job || job.status !== 'active') return;
+
+    const now = this.clock.now();
+    if (job.lease_owner !== null && job.lease_expires_at! > now) {
+      this.scheduleJobExecution(
+        identifier,
+        job.next_run,
+        job.lease_expires_at!
+      );
+    } else if (job.next_run <= now + this.lookAheadWindow) {
+      this.scheduleJobExecution(identifier, job.next_run);
+    }
+  }
+
+  private recordSkippedRun(
+    jobId: string,
+    identifier: string,
+    scheduledFor: number
+  ): void {
+    const now = this.clock.now();
+    this.insertRun({
+      job_id: jobId,
+      identifier,
+      attempt: 1,
+      outcome: 'skipped',
+      scheduled_for: scheduledFor,
+      started_at: now,
+      finished_at: now,
+      duration: 0,
+      error_message: null,
+      error_stack: null,
+    });
+  }
+
+  private recordRunStart(
+    jobId: string,
+    identifier: string,
+    attempt: number,
+    scheduledFor: number | null
+  ): number {
+    return this.insertRun({
+      job_id: jobId,
+      identifier,
+      attempt,
+      outcome: 'running',
+      scheduled_for: scheduledFor,
+      started_at: this.clock.now(),
+      finished_at: null,
+      duration: null,
+      error_message: null,
+      error_stack: null,
+    });
+  }
+
+  private async loadAndScheduleChunk(): Promise<void> {
+    const now = this.clock.now();
+    const windowEnd = now + this.lookAheadWindow;
+
+    for (const [identifier, timeout] of this.activeJobs) {
+      this.clock.clearTimeout(timeout);
+    }
+    this.activeJobs.clear();
+
+    for (const timeout of this.retryTimers.values()) {
+      this.clock.clearTimeout(timeout);
+    }
+    this.retryTimers.clear();
+
+    this.handleMisfiredJobs(now);
+    this.scheduleRetries();
+
+    const jobs = this.findDueJobs({
+      after: now,
+      until: windowEnd,
+      limit: this.chunkSize,
+    });
+
+    for (const job of jobs) {
+      if (this.resolveHandler(job.identifier, job.handler_name)) {
+        this.scheduleJobExecution(job.identifier, job.next_run);
+      } else {
+        this.reportUnknownHandler(job.identifier, job.handler_name);
+      }
+    }
+
+    this.emit('refresh', { scheduled: this.activeJobs.size });
+  }
+
+  /**
+   * Apply the misfire policy to active jobs whose next run is already in the past,
+   * e.g. because the process was down when they were due.
+   * @param now - Reference time used to measure how late each job is
+   * @param handlerName - Only handle jobs using this named handler
+   */
+  private handleMisfiredJobs(now: number, handlerName?: string): void {
+    const jobs = this.findMisfiredJobs({
+      until: now,
+      handlerName,
+      limit: this.chunkSize,
+    });
+
+    for (const job of jobs) {
+      // Jobs still executing arm their next run once they finish
+      if (
+        this.executions.has(job.identifier) ||
+        this.activeJobs.has(job.identifier)
+      ) {
+        continue;
+      }
+
+      if (!this.resolveHandler(job.identifier, job.handler_name)) {
+        this.reportUnknownHandler(job.identifier, job.handler_name);
+        continue;
+      }
+
+      const policy = job.misfire_policy ?? this.misfirePolicy;
+      const graceTime = job.misfire_grace_time ?? this.misfireGraceTime;
+
+      // The other policies run the missed occurrence however late it is, so
+      // the grace time only decides what `skip` drops
+      if (policy !== 'skip' || now - job.next_run <= graceTime) {
+        this.scheduleJobExecution(job.identifier, job.next_run);
+        continue;
+      }
+
+      const nextRun = this.calculateBoundedNextRun(
+        job,
+        now,
+        job.start_at,
+        job.end_at
+      );
+
+      // Only skip occurrences that no other worker is currently running
+      if (nextRun !== null) {
+        const skipped = this.skipMisfiredRun(
+          job.identifier,
+          job.next_run,
+          nextRun,
+          now
+        );
+
+        if (skipped && nextRun <= now + this.lookAheadWindow) {
+          this.scheduleJobExecution(job.identifier, nextRun);
+        }
+      } else {
+        // A skipped one-time job, or a recurring job past its end, has nothing left to run
+        this.completeJob(job.identifier, job.next_run, now);
+      }
+    }
+  }
+
+  /**
+   * Complete an active job that has nothing left to run, unless another
+   * worker is currently running it.
+   * @param identifier - Unique identifier of the job
+   * @param nextRun - Next run of the job, guarding against concurrent changes
+   * @param now - Current time in milliseconds
+   */
+  private completeJob(identifier: string, nextRun: number, now: number): void {
+    if (this.completeIdleJob(identifier, nextRun, now)) {
+      this.emit('job:completed', { identifier });
+    }
+  }
+
+  private scheduleJobsForHandler(handlerName: string): void {
+    const now = this.clock.now();
+
+    this.handleMisfiredJobs(now, handlerName);
+    this.scheduleRetries(handlerName);
+
+    const jobs = this.findDueJobs({
+      after: now,
+      until: now + this.lookAheadWindow,
+      handlerName,
+    });
+
+    for (const job of jobs) {
+      if (!this.activeJobs.has(job.identifier)) {
+        this.scheduleJobExecution(job.identifier, job.next_run);
+      }
+    }
+  }
+
+  /**
+   * Start the cron service and begin processing jobs.
+   * This method initializes the database if needed and begins automatic job execution.
+   * Jobs will be loaded and scheduled based on the configured look-ahead window.
+   */
+  public async start(): Promise<void> {
+    if (this.isRunning) return;
+
+    await this.ensureInitialized();
+    this.isRunning = true;
+
+    await this.loadAndScheduleChunk();
+
+    if (!this.refreshTimer) {
+      this.refreshTimer = this.clock.setInterval(async () => {
+        await this.loadAndScheduleChunk();
+      }, this.refreshInterval);
+    }
+
+    // Start auto-cleanup if enabled
+    this.startAutoCleanup();
+  }
+
+  /**
+   * Stop the cron service and cease processing jobs.
+   * No new occurrences are started once this method is called. Running
+   * executions are aborted, or with `drain` allowed to finish until the drain
+   * timeout elapses; pending retries are kept and run once the service is
+   * started again.
+   * @param options - Whether and how long to wait for running executions
+   */
+  public async stop(options: StopOptions = {}): Promise<void> {
+    this.isRunning = false;
+
+    if (this.refreshTimer) {
+      this.clock.clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    // Stop auto-cleanup
+    this.stopAutoCleanup();
+
+    for (const [identifier, timeout] of this.activeJobs) {
+      this.clock.clearTimeout(timeout);
+    }
+    this.activeJobs.clear();
+
+    for (const timeout of this.retryTimers.values()) {
+      this.clock.clearTimeout(timeout);
+    }
+    this.retryTimers.clear();
+
+    if (options.drain && this.inFlight.size > 0) {
+      const drained = Promise.allSettled(this.inFlight);
+
+      if (options.timeout === undefined) {
+        await drained;
+      } else {
+        const drainTimeout = options.timeout;
+        let timer: ClockTimer | undefined;
+        await Promise.race([
+          drained,
+          new Promise<void>((resolve) => {
+            timer = this.clock.setTimeout(resolve, drainTimeout);
+          }),
+        ]);
+        if (timer) this.clock.clearTimeout(timer);
+      }
+    }
+
+    for (const identifier of this.executions.keys()) {
+      this.abortExecutions(identifier, new Error('Cron service stopped'));
+    }
+
+    // Aborted attempts settle right away; let them record their outcome
+    await Promise.allSettled(this.inFlight);
+
+    if (this.leaseRenewalTimer) {
+      this.clock.clearInterval(this.leaseRenewalTimer);
+      this.leaseRenewalTimer = null;
+    }
+  }
+
+  // Storage of jobs and their run history, provided by each driver
+
+  /**
+   * Open the storage, creating or upgrading it as needed.
+   */
+  protected abstract openStore(): Promise<void>;
+
+  /**
+   * Close the storage and release its resources.
+   */
+  protected abstract closeStore(): void;
+
+  /**
+   * Insert a new job.
+   * @param job - Job to insert
+   * @param replace - Whether the job replaces an existing job with the same identifier
+   * @returns True if the job was inserted, false if the identifier is taken
+   */
+  protected abstract insertJob(job: JobRecord, replace: boolean): boolean;
+
+  /**
+   * Get a job by its identifier.
+   */
+  protected abstract getJob(identifier: string): JobRecord | undefined;
+
+  /**
+   * Update columns of a job.
+   * @param identifier - Unique identifier of the job
+   * @param changes - New values of the columns
+   * @param status - Only update the job while it has this status
+   * @returns True if the job was updated
+   */
+  protected abstract updateJob(
+    identifier: string,
+    changes: Partial<JobRecord>,
+    status?: CronJob['status']
+  ): boolean;
+
+  /**
+   * Find jobs matching the filters of a listing, in the listing's order.
+   */
+  protected abstract queryJobs(query: JobQuery): JobRecord[];
+
+  /**
+   * Find active jobs whose next run is due within a time range, ordered by
+   * next run, then identifier.
+   */
+  protected abstract findDueJobs(query: DueJobQuery): JobRecord[];
+
+  /**
+   * Find active jobs whose next run has passed and is not being retried,
+   * ordered by next run.
+   */
+  protected abstract findMisfiredJobs(query: DueJobQuery): JobRecord[];
+
+  /**
+   * Find active jobs with a pending retry due by the end of a time range,
+   * ordered by retry time.
+   */
+  protected abstract findDueRetries(query: DueJobQuery): JobRecord[];
+
+  /**
+   * Count the jobs with a status.
+   * @param nextRunUntil - Only count jobs whose next run is at or before this time
+   */
+  protected abstract countJobs(
+    status: CronJob['status'],
+    nextRunUntil?: number
+  ): number;
+
+  /**
+   * Count the jobs and their runs per status.
+   */
+  protected abstract countJobsByStatus(): Array<{
+    status: CronJob['status'];
+    count: number;
+    runs: number;
+  }>;
+
+  /**
+   * Delete the jobs with a status that were last updated before a time.
+   * @returns Number of deleted jobs
+   */
+  protected abstract deleteJobs(
+    status: CronJob['status'],
+    updatedBefore: number
+  ): number;
+
+  /**
+   * Atomically claim an occurrence of a job for this worker.
+   * A claim succeeds only if the occurrence is still pending and no other worker
+   * holds an unexpired lease on the job, so each occurrence runs exactly once
+   * across all workers sharing the storage. Recurring jobs advance to their
+   * following occurrence as part of the claim.
+   * @returns True if this worker now holds the lease
+   */
+  protected abstract claimJob(
+    identifier: string,
+    scheduledFor: number,
+    followingRun: number | null
+  ): boolean;
+
+  /**
+   * Take the lease on a job for a manual run, unless another worker holds it.
+   * @returns True if this worker now holds the lease
+   */
+  protected abstract claimManualRun(identifier: string): boolean;
+
+  /**
+   * Atomically claim the pending retry of a job for this worker.
+   * @returns True if this worker now holds the lease
+   */
+  protected abstract claimRetry(identifier: string, retryAt: number): boolean;
+
+  /**
+   * Extend the leases of all jobs this worker is currently running.
+   */
+  protected abstract renewLeases(): void;
+
+  protected abstract releaseLease(identifier: string): void;
+
+  /**
+   * Store the pending retry of a job this worker holds the lease on.
+   * @param releaseLease - Whether to release the lease
+   * @returns True if the retry was stored
+   */
+  protected abstract storeRetry(
+    identifier: string,
+    retry: Pick<
+      JobRecord,
+      | 'retry_at'
+      | 'retry_attempt'
+      | 'retry_scheduled_for'
+      | 'retry_delay'
+      | 'retry_trigger'
+    >,
+    now: number,
+    releaseLease: boolean
+  ): boolean;
+
+  /**
+   * Record a finished execution on a job this worker holds the lease on.
+   * @param update - Whether the execution counts as a run, and the job's new
+   * consecutive failures and status
+   * @param releaseLease - Whether to release the lease
+   */
+  protected abstract recordExecution(
+    identifier: string,
+    update: {
+      started: boolean;
+      consecutiveFailures: number;
+      status: CronJob['status'];
+      now: number;
+    },
+    releaseLease: boolean
+  ): void;
+
+  /**
+   * Move a misfired job to its following occurrence, unless another worker
+   * is currently running it.
+   * @param nextRun - Misfired next run of the job, guarding against concurrent changes
+   * @param followingRun - Occurrence to move the job to
+   * @returns True if the job was moved
+   */
+  protected abstract skipMisfiredRun(
+    identifier: string,
+    nextRun: number,
+    followingRun: number,
+    now: number
+  ): boolean;
+
+  /**
+   * Complete an active job unless another worker is currently running it.
+   * @param nextRun - Next run of the job, guarding against concurrent changes
+   * @returns True if the job was completed
+   */
+  protected abstract completeIdleJob(
+    identifier: string,
+    nextRun: number,
+    now: number
+  ): boolean;
+
+  /**
+   * Add an entry to the run history.
+   * @returns Id of the new entry
+   */
+  protected abstract insertRun(run: Omit<CronJobRun, 'id'>): number;
+
+  protected abstract recordRunEnd(
+    runId: number,
+    outcome: CronJobRunOutcome,
+    error?: Error
+  ): void;
+
+  /**
+   * Find run history entries, newest first.
+   */
+  protected abstract findRuns(query: RunQuery): CronJobRun[];
+
+  /**
+   * Remove run history entries of jobs that no longer exist.
+   */
+  protected abstract pruneOrphanedRuns(): void;
+
+  /**
+   * Remove run history entries that finished before a time.
+   */
+  protected abstract deleteRunsFinishedBefore(time: number): void;
+}
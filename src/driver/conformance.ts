@@ -0,0 +1,770 @@
+import assert from 'node:assert/strict';
+import type { Driver } from './driver';
+import type { CronHandlerContext, CronServiceConfig } from '../types';
+import { VirtualClock } from '../clock';
+import { JobExistsError, NonRetryableError } from '../errors';
+
+/**
+ * Configuration passed to the driver factory of the conformance suite.
+ * Drivers must use the given clock for the current time and for all timers.
+ */
+export type DriverConformanceConfig = Omit<CronServiceConfig, 'db'> & {
+  clock: VirtualClock;
+};
+
+/**
+ * Create a fresh, empty driver for a single conformance test.
+ */
+export type DriverFactory = (
+  config: DriverConformanceConfig
+) => Driver | Promise<Driver>;
+
+/**
+ * Outcome of a single conformance test.
+ */
+export interface DriverConformanceResult {
+  /** Description of the tested behavior */
+  name: string;
+  /** Whether the driver behaved as specified */
+  passed: boolean;
+  /** Assertion or driver error of a failed test (null if passed) */
+  error: Error | null;
+}
+
+/**
+ * Outcome of a conformance run.
+ */
+export interface DriverConformanceReport {
+  /** Outcome of every test, in order */
+  results: DriverConformanceResult[];
+  /** Number of passed tests */
+  passed: number;
+  /** Number of failed tests */
+  failed: number;
+}
+
+interface ConformanceContext {
+  driver: Driver;
+  clock: VirtualClock;
+}
+
+interface ConformanceTest {
+  name: string;
+  config?: Omit<CronServiceConfig, 'db'>;
+  run(context: ConformanceContext): Promise<void>;
+}
+
+// A whole hour in UTC, so hourly jobs are due exactly one hour after the start
+const START = Date.UTC(2030, 0, 1);
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const noop = () => {};
+
+const tests: ConformanceTest[] = [
+  {
+    name: 'schedules a recurring job',
+    async run({ driver }) {
+      const id = await driver.schedule('0 * * * *', 'hourly', noop);
+      const job = await driver.get('hourly');
+
+      assert.ok(job, 'scheduled job is returned by get()');
+      assert.equal(job.id, id);
+      assert.equal(job.status, 'active');
+      assert.equal(job.cron_expression, '0 * * * *');
+      assert.equal(job.specific_time, null);
+      assert.equal(job.next_run, START + HOUR);
+      assert.equal(job.run_count, 0);
+      assert.equal(job.last_run, null);
+    },
+  },
+  {
+    name: 'replaces a job scheduled again with the same identifier',
+    async run({ driver }) {
+      const first = await driver.schedule('0 * * * *', 'job', noop);
+      const second = await driver.schedule('*/5 * * * *', 'job', noop);
+      const job = await driver.get('job');
+
+      assert.notEqual(first, second);
+      assert.equal(job?.id, second);
+      assert.equal(job?.cron_expression, '*/5 * * * *');
+      assert.equal(job?.next_run, START + 5 * MINUTE);
+      assert.equal((await driver.getJobStats()).total, 1);
+    },
+  },
+  {
+    name: 'resolves identifier conflicts with the onConflict policy',
+    async run({ driver, clock }) {
+      const id = await driver.schedule('0 * * * *', 'job', noop);
+      await driver.start();
+      await clock.advanceBy(HOUR);
+      await driver.pause('job');
+
+      const kept = await driver.schedule('*/5 * * * *', 'job', noop, {
+        onConflict: 'keep',
+      });
+      let job = await driver.get('job');
+      assert.equal(kept, id);
+      assert.equal(job?.status, 'paused');
+      assert.equal(job?.run_count, 1);
+      assert.equal(job?.cron_expression, '0 * * * *');
+
+      await assert.rejects(
+        driver.schedule('*/5 * * * *', 'job', noop, { onConflict: 'error' }),
+        JobExistsError
+      );
+
+      let runs = 0;
+      const updated = await driver.schedule(
+        '*/5 * * * *',
+        'job',
+        () => {
+          runs++;
+        },
+        { onConflict: 'update-handler-only' }
+      );
+      job = await driver.get('job');
+      assert.equal(updated, id);
+      assert.equal(job?.status, 'paused');
+      assert.equal(job?.cron_expression, '0 * * * *');
+
+      await driver.resume('job');
+      await clock.advanceBy(HOUR);
+      assert.equal(runs, 1, 'job runs the updated handler');
+
+      const fresh = await driver.schedule('0 * * * *', 'new', noop, {
+        onConflict: 'error',
+      });
+      assert.equal((await driver.get('new'))?.id, fresh);
+    },
+  },
+  {
+    name: 'rejects invalid schedules',
+    async run({ driver }) {
+      await assert.rejects(driver.schedule('not a cron', 'invalid', noop));
+      await assert.rejects(driver.schedule(START - 1, 'past', noop));
+      await assert.rejects(driver.schedule('0 * * * *', 'unknown', 'missing'));
+      assert.equal(await driver.get('invalid'), null);
+      assert.equal(await driver.get('past'), null);
+    },
+  },
+  {
+    name: 'runs a recurring job at every occurrence',
+    async run({ driver, clock }) {
+      const runs: { payload: unknown; at: number }[] = [];
+      await driver.schedule(
+        '0 * * * *',
+        'hourly',
+        (payload) => {
+          runs.push({ payload, at: clock.now() });
+        },
+        { payload: { value: 1 } }
+      );
+      await driver.start();
+
+      await clock.advanceBy(3 * HOUR);
+      const job = await driver.get('hourly');
+
+      assert.deepEqual(
+        runs.map((run) => run.at),
+        [START + HOUR, START + 2 * HOUR, START + 3 * HOUR]
+      );
+      assert.deepEqual(runs[0].payload, { value: 1 });
+      assert.equal(job?.run_count, 3);
+      assert.equal(job?.last_run, START + 3 * HOUR);
+      assert.equal(job?.next_run, START + 4 * HOUR);
+      assert.equal(await driver.getJobRunCount('hourly'), 3);
+    },
+  },
+  {
+    name: 'runs interval jobs at fixed times from their anchor',
+    async run({ driver, clock }) {
+      const SECOND = 1000;
+      const started: number[] = [];
+      await driver.schedule(
+        { every: '90s' },
+        'interval',
+        async (_payload, context) => {
+          started.push(clock.now());
+          assert.equal(context.scheduledFor, clock.now());
+          // Runs take longer than the interval, so the next one is skipped
+          await new Promise<void>((resolve) =>
+            clock.setTimeout(resolve, 100 * SECOND)
+          );
+        }
+      );
+      await driver.schedule(
+        { every: '36h', anchor: START - HOUR },
+        'anchored',
+        noop
+      );
+
+      let job = await driver.get('interval');
+      assert.equal(job?.schedule_type, 'interval');
+      assert.equal(job?.interval, 90 * SECOND);
+      assert.equal(job?.interval_anchor, START);
+      assert.equal(job?.next_run, START + 90 * SECOND);
+      assert.equal((await driver.get('anchored'))?.next_run, START + 35 * HOUR);
+      assert.deepEqual(
+        await driver.preview({ every: '1h30m', anchor: START }, { count: 3 }),
+        [START + 90 * MINUTE, START + 180 * MINUTE, START + 270 * MINUTE]
+      );
+
+      await driver.start();
+      await clock.advanceBy(5 * MINUTE);
+
+      assert.deepEqual(started, [START + 90 * SECOND, START + 270 * SECOND]);
+      job = await driver.get('interval');
+      assert.equal(job?.next_run, START + 360 * SECOND);
+
+      await assert.rejects(driver.schedule({ every: 'soon' }, 'invalid', noop));
+      await assert.rejects(driver.schedule({ every: 0 }, 'invalid', noop));
+    },
+  },
+  {
+    name: 'runs jobs with named handlers',
+    async run({ driver, clock }) {
+      const payloads: unknown[] = [];
+      driver.define('record', (payload) => {
+        payloads.push(payload);
+      });
+      await driver.schedule(START + MINUTE, 'named', 'record', {
+        payload: 'hello',
+      });
+      await driver.start();
+
+      await clock.advanceBy(MINUTE);
+
+      assert.deepEqual(payloads, ['hello']);
+      assert.equal((await driver.get('named'))?.handler_name, 'record');
+    },
+  },
+  {
+    name: 'passes the execution context to the handler',
+    async run({ driver, clock }) {
+      const contexts: CronHandlerContext[] = [];
+      await driver.schedule(START + MINUTE, 'context', (_payload, context) => {
+        contexts.push(context);
+      });
+      await driver.start();
+
+      await clock.advanceBy(MINUTE);
+
+      assert.equal(contexts.length, 1);
+      assert.equal(contexts[0].identifier, 'context');
+      assert.equal(contexts[0].attempt, 1);
+      assert.equal(contexts[0].scheduledFor, START + MINUTE);
+      assert.ok(contexts[0].signal instanceof AbortSignal);
+    },
+  },
+  {
+    name: 'completes a one-time job after it runs',
+    async run({ driver, clock }) {
+      let runs = 0;
+      await driver.schedule(new Date(START + MINUTE), 'once', () => {
+        runs++;
+      });
+      await driver.start();
+
+      await clock.advanceBy(MINUTE - 1);
+      assert.equal(runs, 0, 'job does not run before it is due');
+
+      await clock.advanceBy(1);
+      const job = await driver.get('once');
+
+      assert.equal(runs, 1);
+      assert.equal(job?.status, 'completed');
+      assert.equal(job?.run_count, 1);
+      assert.equal(await driver.getCompletedJobsCount(), 1);
+
+      await clock.advanceBy(DAY);
+      assert.equal(runs, 1, 'completed job does not run again');
+    },
+  },
+  {
+    name: 'completes a recurring job at its end or maximum runs',
+    async run({ driver, clock }) {
+      let bounded = 0;
+      let limited = 0;
+      await driver.schedule(
+        '0 * * * *',
+        'bounded',
+        () => {
+          bounded++;
+        },
+        { startAt: START + 2 * HOUR, endAt: new Date(START + 4 * HOUR) }
+      );
+      await driver.schedule(
+        '0 * * * *',
+        'limited',
+        () => {
+          limited++;
+        },
+        { maxRuns: 3 }
+      );
+
+      assert.equal((await driver.get('bounded'))?.next_run, START + 2 * HOUR);
+      assert.deepEqual(await driver.preview('bounded'), [
+        START + 2 * HOUR,
+        START + 3 * HOUR,
+        START + 4 * HOUR,
+      ]);
+      assert.equal((await driver.preview('limited')).length, 3);
+
+      await driver.start();
+      await clock.advanceBy(6 * HOUR);
+
+      assert.equal(bounded, 3);
+      assert.equal(limited, 3);
+      assert.equal((await driver.get('bounded'))?.status, 'completed');
+      assert.equal((await driver.get('limited'))?.status, 'completed');
+      assert.equal((await driver.get('limited'))?.run_count, 3);
+
+      await assert.rejects(
+        driver.schedule('0 * * * *', 'ended', noop, { endAt: START - HOUR }),
+        RangeError
+      );
+      await assert.rejects(
+        driver.schedule(clock.now() + HOUR, 'once', noop, { maxRuns: 1 })
+      );
+    },
+  },
+  {
+    name: 'reschedules a job in place',
+    async run({ driver, clock }) {
+      let runs = 0;
+      const id = await driver.schedule('0 * * * *', 'job', () => {
+        runs++;
+      });
+      await driver.schedule(START + MINUTE, 'once', noop);
+      await driver.schedule('0 * * * *', 'cancelled', noop);
+      await driver.cancel('cancelled');
+      await driver.start();
+      await clock.advanceBy(2 * HOUR);
+
+      assert.equal(await driver.reschedule('job', '*/15 * * * *'), true);
+      let job = await driver.get('job');
+      assert.equal(job?.id, id);
+      assert.equal(job?.run_count, 2);
+      assert.equal(job?.created_at, START);
+      assert.equal(job?.cron_expression, '*/15 * * * *');
+      assert.equal(job?.next_run, START + 2 * HOUR + 15 * MINUTE);
+
+      await clock.advanceBy(30 * MINUTE);
+      job = await driver.get('job');
+      assert.equal(runs, 4);
+      assert.equal(job?.run_count, 4);
+
+      assert.equal((await driver.get('once'))?.status, 'completed');
+      assert.equal(await driver.reschedule('once', clock.now() + HOUR), true);
+      assert.equal((await driver.get('once'))?.status, 'active');
+      await clock.advanceBy(HOUR);
+      assert.equal((await driver.get('once'))?.run_count, 2);
+
+      assert.equal(await driver.reschedule('missing', '0 * * * *'), false);
+      assert.equal(await driver.reschedule('cancelled', '0 * * * *'), false);
+    },
+  },
+  {
+    name: 'drops a pending retry when rescheduled',
+    config: {
+      retry: {
+        maxAttempts: 2,
+        strategy: 'fixed',
+        baseDelay: 10 * MINUTE,
+        maxDelay: 10 * MINUTE,
+      },
+    },
+    async run({ driver, clock }) {
+      const attempts: { attempt: number; at: number }[] = [];
+      await driver.schedule('0 * * * *', 'job', (_payload, context) => {
+        attempts.push({ attempt: context.attempt, at: clock.now() });
+        throw new Error('Always fails');
+      });
+      await driver.start();
+
+      await clock.advanceBy(HOUR);
+      assert.equal(
+        (await driver.get('job'))?.retry_at,
+        START + HOUR + 10 * MINUTE
+      );
+
+      assert.equal(await driver.reschedule('job', '30 * * * *'), true);
+      const job = await driver.get('job');
+      assert.equal(job?.retry_at, null);
+      assert.equal(job?.retry_attempt, null);
+
+      await clock.advanceBy(35 * MINUTE);
+      assert.deepEqual(attempts, [
+        { attempt: 1, at: START + HOUR },
+        { attempt: 1, at: START + HOUR + 30 * MINUTE },
+      ]);
+    },
+  },
+  {
+    name: 'pauses and resumes a job',
+    async run({ driver, clock }) {
+      let runs = 0;
+      await driver.schedule('0 * * * *', 'hourly', () => {
+        runs++;
+      });
+      await driver.start();
+
+      assert.equal(await driver.pause('hourly'), true);
+      assert.equal(await driver.pause('missing'), false);
+      assert.equal((await driver.get('hourly'))?.status, 'paused');
+
+      await clock.advanceBy(2 * HOUR);
+      assert.equal(runs, 0, 'paused job does not run');
+
+      assert.equal(await driver.resume('hourly'), true);
+      assert.equal(await driver.resume('missing'), false);
+      assert.equal((await driver.get('hourly'))?.status, 'active');
+      assert.equal(await driver.resume('hourly'), false, 'already active');
+
+      await clock.advanceBy(HOUR);
+      assert.ok(runs > 0, 'resumed job runs again');
+    },
+  },
+  {
+    name: 'cancels a job',
+    async run({ driver, clock }) {
+      let runs = 0;
+      await driver.schedule('0 * * * *', 'hourly', () => {
+        runs++;
+      });
+      await driver.start();
+
+      assert.equal(await driver.cancel('hourly'), true);
+      assert.equal(await driver.cancel('missing'), false);
+      assert.equal((await driver.get('hourly'))?.status, 'cancelled');
+
+      await clock.advanceBy(2 * HOUR);
+      assert.equal(runs, 0, 'cancelled job does not run');
+
+      assert.equal(await driver.resume('hourly'), false);
+      assert.equal((await driver.get('hourly'))?.status, 'cancelled');
+    },
+  },
+  {
+    name: 'triggers a job without changing its schedule',
+    async run({ driver, clock }) {
+      const payloads: unknown[] = [];
+      await driver.schedule(
+        '0 * * * *',
+        'hourly',
+        (payload) => {
+          payloads.push(payload);
+        },
+        { payload: 'scheduled' }
+      );
+      await driver.start();
+
+      assert.equal(
+        await driver.trigger('hourly', { payloadOverride: 'manual' }),
+        true
+      );
+      assert.equal(await driver.trigger('missing'), false);
+      await clock.advanceBy(0);
+
+      let job = await driver.get('hourly');
+      assert.deepEqual(payloads, ['manual']);
+      assert.equal(job?.next_run, START + HOUR);
+      assert.equal(job?.run_count, 0);
+
+      await driver.trigger('hourly', { countAsRun: true });
+      await clock.advanceBy(HOUR);
+
+      job = await driver.get('hourly');
+      assert.deepEqual(payloads, ['manual', 'scheduled', 'scheduled']);
+      assert.equal(job?.run_count, 2);
+      assert.equal(job?.next_run, START + 2 * HOUR);
+    },
+  },
+  {
+    name: 'triggers a job while the service is stopped',
+    config: {
+      retry: { maxAttempts: 2, strategy: 'fixed', baseDelay: 1000 },
+    },
+    async run({ driver, clock }) {
+      const attempts: { attempt: number; at: number }[] = [];
+      await driver.schedule('0 * * * *', 'hourly', (_payload, context) => {
+        attempts.push({ attempt: context.attempt, at: clock.now() });
+        if (context.attempt === 1) throw new Error('Temporary failure');
+      });
+      // Scheduling starts the service
+      await driver.stop();
+
+      assert.equal(await driver.trigger('hourly'), true);
+      await clock.advanceBy(MINUTE);
+
+      // The retry waits for the service to start
+      assert.deepEqual(attempts, [{ attempt: 1, at: START }]);
+      assert.equal((await driver.get('hourly'))?.retry_at, START + 1000);
+
+      await driver.start();
+      await clock.advanceBy(0);
+
+      assert.deepEqual(attempts, [
+        { attempt: 1, at: START },
+        { attempt: 2, at: START + MINUTE },
+      ]);
+      const job = await driver.get('hourly');
+      assert.equal(job?.retry_at, null);
+      assert.equal(job?.next_run, START + HOUR);
+      assert.equal(job?.run_count, 0);
+    },
+  },
+  {
+    name: 'previews upcoming occurrences',
+    async run({ driver }) {
+      await driver.schedule('0 */6 * * *', 'six-hourly', noop);
+      await driver.schedule(START + HOUR, 'once', noop);
+      await driver.schedule('0 * * * *', 'paused', noop);
+      await driver.pause('paused');
+
+      assert.deepEqual(await driver.preview('six-hourly', { count: 3 }), [
+        START + 6 * HOUR,
+        START + 12 * HOUR,
+        START + 18 * HOUR,
+      ]);
+      assert.deepEqual(
+        await driver.preview('30 * * * *', { until: START + 2 * HOUR }),
+        [START + 30 * MINUTE, START + 90 * MINUTE]
+      );
+      assert.deepEqual(await driver.preview('paused'), []);
+      assert.deepEqual(await driver.getUpcoming({ until: START + 6 * HOUR }), [
+        { identifier: 'once', scheduledFor: START + HOUR },
+        { identifier: 'six-hourly', scheduledFor: START + 6 * HOUR },
+      ]);
+    },
+  },
+  {
+    name: 'reports job statistics',
+    async run({ driver, clock }) {
+      await driver.schedule('0 * * * *', 'active', noop);
+      await driver.schedule('0 * * * *', 'paused', noop);
+      await driver.schedule('0 * * * *', 'cancelled', noop);
+      await driver.schedule(START + MINUTE, 'completed', noop);
+      await driver.pause('paused');
+      await driver.cancel('cancelled');
+      await driver.start();
+
+      await clock.advanceBy(MINUTE);
+
+      assert.deepEqual(await driver.getJobStats(), {
+        total: 4,
+        active: 1,
+        paused: 1,
+        cancelled: 1,
+        completed: 1,
+        failed: 0,
+        totalRuns: 1,
+      });
+      assert.equal(await driver.getActiveJobsCount(), 1);
+      assert.equal(await driver.getTotalRunsCount(), 1);
+    },
+  },
+  {
+    name: 'removes old completed and cancelled jobs',
+    async run({ driver, clock }) {
+      await driver.schedule(START + MINUTE, 'completed', noop);
+      await driver.schedule('0 * * * *', 'cancelled', noop);
+      await driver.schedule('0 0 1 1 *', 'active', noop);
+      await driver.cancel('cancelled');
+      await driver.start();
+      await clock.advanceBy(MINUTE);
+
+      assert.equal(await driver.cleanupCompletedJobs(7), 0);
+
+      await clock.advanceBy(8 * DAY);
+      assert.equal(await driver.cleanupCompletedJobs(7), 1);
+      assert.equal(await driver.cleanupOldJobs(30), 0);
+      assert.equal(await driver.get('completed'), null);
+
+      await clock.advanceBy(23 * DAY);
+      assert.equal(await driver.cleanupOldJobs(30), 1);
+      assert.equal(await driver.get('cancelled'), null);
+      assert.equal((await driver.get('active'))?.status, 'active');
+    },
+  },
+  {
+    name: 'retries failed attempts after the retry delay',
+    config: {
+      retry: { maxAttempts: 3, strategy: 'fixed', baseDelay: 1000 },
+    },
+    async run({ driver, clock }) {
+      const attempts: { attempt: number; at: number }[] = [];
+      await driver.schedule(START + MINUTE, 'flaky', (_payload, context) => {
+        attempts.push({ attempt: context.attempt, at: clock.now() });
+        if (context.attempt < 3) throw new Error('Temporary failure');
+      });
+      await driver.start();
+
+      await clock.advanceBy(MINUTE + 5000);
+      const job = await driver.get('flaky');
+
+      assert.deepEqual(attempts, [
+        { attempt: 1, at: START + MINUTE },
+        { attempt: 2, at: START + MINUTE + 1000 },
+        { attempt: 3, at: START + MINUTE + 2000 },
+      ]);
+      assert.equal(job?.status, 'completed');
+      assert.equal(job?.run_count, 1);
+      assert.equal(job?.retry_at, null);
+    },
+  },
+  {
+    name: 'marks a one-time job failed once its retries are exhausted',
+    async run({ driver, clock }) {
+      let attempts = 0;
+      await driver.schedule(
+        START + MINUTE,
+        'broken',
+        () => {
+          attempts++;
+          throw new Error('Permanent failure');
+        },
+        { retry: { maxAttempts: 2, strategy: 'fixed', baseDelay: 1000 } }
+      );
+      await driver.start();
+
+      await clock.advanceBy(MINUTE + 5000);
+
+      assert.equal(attempts, 2);
+      assert.equal((await driver.get('broken'))?.status, 'failed');
+      assert.equal((await driver.getJobStats()).failed, 1);
+      assert.equal(
+        await driver.resume('broken'),
+        false,
+        'failed jobs are requeued'
+      );
+      assert.equal((await driver.get('broken'))?.status, 'failed');
+      assert.equal((await driver.getRetryConfig('broken'))?.maxAttempts, 2);
+      assert.equal(await driver.getRetryConfig('missing'), null);
+    },
+  },
+  {
+    name: 'does not retry a NonRetryableError',
+    async run({ driver, clock }) {
+      let attempts = 0;
+      await driver.schedule(START + MINUTE, 'invalid', () => {
+        attempts++;
+        throw new NonRetryableError('Invalid input');
+      });
+      await driver.start();
+
+      await clock.advanceBy(MINUTE + 10 * 1000);
+
+      assert.equal(attempts, 1);
+      assert.equal((await driver.get('invalid'))?.status, 'failed');
+    },
+  },
+  {
+    name: 'keeps running recurring jobs after a failed occurrence',
+    config: { retry: { maxAttempts: 1 } },
+    async run({ driver, clock }) {
+      let runs = 0;
+      await driver.schedule('0 * * * *', 'hourly', () => {
+        runs++;
+        if (runs === 1) throw new Error('First run fails');
+      });
+      await driver.start();
+
+      await clock.advanceBy(2 * HOUR);
+      const job = await driver.get('hourly');
+
+      assert.equal(runs, 2);
+      assert.equal(job?.status, 'active');
+      assert.equal(job?.run_count, 2);
+    },
+  },
+  {
+    name: 'pauses a recurring job after its maximum consecutive failures',
+    config: { retry: { maxAttempts: 1 }, maxConsecutiveFailures: 2 },
+    async run({ driver, clock }) {
+      let runs = 0;
+      let failing = true;
+      await driver.schedule('0 * * * *', 'flaky', () => {
+        runs++;
+        if (failing) throw new Error('Run fails');
+      });
+      await driver.start();
+
+      await clock.advanceBy(4 * HOUR);
+      let job = await driver.get('flaky');
+
+      assert.equal(runs, 2, 'no runs after the job is paused');
+      assert.equal(job?.status, 'paused');
+      assert.equal(job?.consecutive_failures, 2);
+
+      failing = false;
+      assert.equal(await driver.resume('flaky'), true);
+      job = await driver.get('flaky');
+      assert.equal(job?.status, 'active');
+      assert.equal(job?.consecutive_failures, 0, 'resuming resets the count');
+
+      await clock.advanceBy(HOUR);
+      assert.equal((await driver.get('flaky'))?.status, 'active');
+      assert.ok(runs > 2, 'runs again once resumed');
+    },
+  },
+];
+
+/**
+ * Verify a driver against the behavior specified for the `Driver` interface.
+ * Every test gets a fresh driver from the factory, running on a virtual clock
+ * that starts at 2030-01-01T00:00:00Z with the `UTC` time zone.
+ *
+ * Tests run one after another; a failing test does not stop the run.
+ *
+ * @param createDriver - Factory creating an empty driver from the given configuration
+ * @returns Promise resolving to the outcome of every test
+ *
+ * @example
+ * ```typescript
+ * const report = await runDriverConformance((config) => new MyDriver(config));
+ * for (const result of report.results.filter((result) => !result.passed)) {
+ *   console.error(`${result.name}: ${result.error?.message}`);
+ * }
+ * assert.equal(report.failed, 0);
+ * ```
+ */
+export async function runDriverConformance(
+  createDriver: DriverFactory
+): Promise<DriverConformanceReport> {
+  const results: DriverConformanceResult[] = [];
+
+  for (const test of tests) {
+    const clock = new VirtualClock(START);
+    let driver: Driver | undefined;
+    let error: Error | null = null;
+
+    try {
+      driver = await createDriver({
+        timezone: 'UTC',
+        autoCleanup: { enabled: false },
+        onError: noop,
+        ...test.config,
+        clock,
+      });
+      await driver.init?.();
+      await test.run({ driver, clock });
+    } catch (caught) {
+      error = caught instanceof Error ? caught : new Error(String(caught));
+    }
+
+    try {
+      await driver?.stop();
+      await driver?.destroy?.();
+    } catch (caught) {
+      error ??= caught instanceof Error ? caught : new Error(String(caught));
+    }
+
+    results.push({ name: test.name, passed: error === null, error });
+  }
+
+  const failed = results.filter((result) => !result.passed).length;
+  return { results, passed: results.length - failed, failed };
+}
@@ -1,4 +1,22 @@
-import type { CronJob, CronHandler, ScheduleInput } from '../types';
+import type { QueueStats } from './execution-queue';
+import type {
+  CronEventEmitter,
+  CronJob,
+  CronJobRun,
+  CronHandler,
+  JobListOptions,
+  JobListPage,
+  RetryConfig,
+  ScheduleInput,
+  RunHistoryOptions,
+  ScheduleOptions,
+  RescheduleOptions,
+  StopOptions,
+  TriggerOptions,
+  PreviewOptions,
+  UpcomingOptions,
+  UpcomingRun,
+} from '../types';
 
 /**
  * Interface for cron job storage and execution drivers.
@@ -22,21 +40,66 @@ export interface Driver {
    */
   destroy?(): Promise<void>;
 
+  /**
+   * Attach an event emitter that receives job lifecycle events.
+   * Drivers without event support may omit this method.
+   * @param emitter - Emitter to publish events on, or null to detach
+   */
+  setEmitter?(emitter: CronEventEmitter | null): void;
+
+  /**
+   * Register a named handler that jobs can reference by name.
+   * Named handlers are persisted with the job, so jobs scheduled with them
+   * are rebound automatically when the driver starts after a restart.
+   * @param name - Unique name of the handler
+   * @param handler - Function to execute when a job using this handler runs
+   */
+  define<T = any>(name: string, handler: CronHandler<T>): void;
+
   /**
    * Schedule a new cron job for execution.
-   * @param scheduleInput - Cron expression, timestamp, or Date object
+   * @param scheduleInput - Cron expression, timestamp, Date object, or interval schedule
    * @param identifier - Unique identifier for the job
-   * @param handler - Function to execute when the job runs
-   * @returns Promise resolving to the job ID
+   * @param handler - Function to execute when the job runs, or the name of a registered handler
+   * @param options - Additional scheduling options such as the job payload
+   * @returns Promise resolving to the job ID, or the ID of the existing job when
+   * `onConflict` keeps it
    */
-  schedule(
+  schedule<T = any>(
     scheduleInput: ScheduleInput,
     identifier: string,
-    handler: CronHandler
+    handler: CronHandler<T> | string,
+    options?: ScheduleOptions<T>
   ): Promise<string>;
 
+  /**
+   * Replace the payload of an existing job.
+   * The new payload is passed to the handler from the next execution onwards.
+   * @param identifier - Unique identifier of the job
+   * @param payload - New JSON-serializable payload
+   * @returns Promise resolving to true if the payload was updated, false if not found
+   */
+  updatePayload<T = any>(identifier: string, payload: T): Promise<boolean>;
+
+  /**
+   * Change the schedule of an existing job in place.
+   * The job keeps its id, run count, history and other settings. Completed
+   * one-time jobs become active again; paused and failed jobs keep their status.
+   * A pending retry of the previous schedule is dropped.
+   * @param identifier - Unique identifier of the job
+   * @param scheduleInput - New cron expression, timestamp, Date object, or interval schedule
+   * @param options - Time zone of the new cron expression (default: the job's current time zone)
+   * @returns Promise resolving to true if the job was rescheduled, false if not found or cancelled
+   */
+  reschedule(
+    identifier: string,
+    scheduleInput: ScheduleInput,
+    options?: RescheduleOptions
+  ): Promise<boolean>;
+
   /**
    * Cancel a scheduled job and remove it from execution.
+   * Executions of the job running in this process are aborted.
    * @param identifier - Unique identifier of the job to cancel
    * @returns Promise resolving to true if job was cancelled, false if not found
    */
@@ -45,6 +108,7 @@ export interface Driver {
   /**
    * Pause a scheduled job without removing it.
    * The job can be resumed later using the resume method.
+   * Executions of the job running in this process are aborted.
    * @param identifier - Unique identifier of the job to pause
    * @returns Promise resolving to true if job was paused, false if not found
    */
@@ -52,8 +116,12 @@ export interface Driver {
 
   /**
    * Resume a previously paused job.
+   * Its consecutive failures are reset, so a job paused after reaching
+   * `maxConsecutiveFailures` gets a fresh start.
+   * Only paused jobs can be resumed; failed jobs are made active again with
+   * `requeue()`.
    * @param identifier - Unique identifier of the job to resume
-   * @returns Promise resolving to true if job was resumed, false if not found
+   * @returns Promise resolving to true if job was resumed, false if not found or not paused
    */
   resume(identifier: string): Promise<boolean>;
 
@@ -71,6 +139,49 @@ export interface Driver {
    */
   getJobStatus(identifier: string): Promise<CronJob | null>;
 
+  /**
+   * List jobs matching the given filters, one page at a time.
+   * Pass the returned `nextCursor` as `cursor` to fetch the next page.
+   * @param options - Filters, sort order and paging options
+   * @returns Promise resolving to a page of jobs
+   */
+  list(options?: JobListOptions): Promise<JobListPage>;
+
+  /**
+   * List dead-lettered jobs, i.e. jobs in the `failed` state, one page at a time.
+   * @param options - Filters, sort order and paging options
+   * @returns Promise resolving to a page of failed jobs
+   */
+  listDeadLetters(
+    options?: Omit<JobListOptions, 'status'>
+  ): Promise<JobListPage>;
+
+  /**
+   * Make a dead-lettered job active again.
+   * Its consecutive failures are reset; one-time jobs run right away and
+   * recurring jobs continue with their next occurrence.
+   * @param identifier - Unique identifier of the failed job
+   * @returns Promise resolving to true if the job was requeued, false if not found or not failed
+   */
+  requeue(identifier: string): Promise<boolean>;
+
+  /**
+   * Run a job right away, outside of its schedule.
+   * The run goes through the job's overlap policy, concurrency limits, retry
+   * policy and run history like a scheduled occurrence, but leaves the job's
+   * next run and status untouched. Jobs can be triggered while the service is
+   * stopped too; retries of such a run are kept until the service is started.
+   * @param identifier - Unique identifier of the job
+   * @param options - Payload override and whether the run counts towards the run count
+   * @returns Promise resolving to true if the run was started, false if the job
+   * was not found, is cancelled, has no handler, or the run was skipped because
+   * the job is already running
+   */
+  trigger<T = any>(
+    identifier: string,
+    options?: TriggerOptions<T>
+  ): Promise<boolean>;
+
   /**
    * Get the number of times a job has been executed.
    * @param identifier - Unique identifier of the job
@@ -78,6 +189,25 @@ export interface Driver {
    */
   getJobRunCount(identifier: string): Promise<number>;
 
+  /**
+   * Get the run history of a job, newest first.
+   * Pass the id of the last run of a page as `before` to fetch the next page.
+   * @param identifier - Unique identifier of the job
+   * @param options - Paging options
+   * @returns Promise resolving to the recorded runs
+   */
+  getJobHistory(
+    identifier: string,
+    options?: RunHistoryOptions
+  ): Promise<CronJobRun[]>;
+
+  /**
+   * Get the most recent failed runs across all jobs, newest first.
+   * @param options - Paging options
+   * @returns Promise resolving to the failed runs
+   */
+  getRecentFailures(options?: RunHistoryOptions): Promise<CronJobRun[]>;
+
   /**
    * Get the total number of active jobs.
    * @returns Promise resolving to the count of active jobs
@@ -96,6 +226,22 @@ export interface Driver {
    */
   getTotalRunsCount(): Promise<number>;
 
+  /**
+   * Compute the upcoming occurrences of a schedule, or of an active job when
+   * given its identifier. Occurrences of a job start at its next run.
+   * @param target - Identifier of a job, or a cron expression, timestamp, Date or interval schedule
+   * @param options - Number of occurrences, time range and time zone
+   * @returns Promise resolving to the occurrences as timestamps in milliseconds
+   */
+  preview(target: ScheduleInput, options?: PreviewOptions): Promise<number[]>;
+
+  /**
+   * List the upcoming runs of all active jobs as a single timeline.
+   * @param options - Time range and maximum number of runs
+   * @returns Promise resolving to the runs ordered by time, then identifier
+   */
+  getUpcoming(options: UpcomingOptions): Promise<UpcomingRun[]>;
+
   /**
    * Get the number of jobs scheduled to run within the look-ahead window.
    * @returns Promise resolving to the count of jobs in the execution window
@@ -112,9 +258,16 @@ export interface Driver {
     paused: number;
     cancelled: number;
     completed: number;
+    failed: number;
     totalRuns: number;
   }>;
 
+  /**
+   * Get the depth and wait times of the execution queue.
+   * @returns Object containing running and queued executions and wait times
+   */
+  getQueueStats(): QueueStats;
+
   /**
    * Remove old cancelled jobs from the database.
    * @param olderThanDays - Remove jobs older than this many days (default: 30)
@@ -155,6 +308,7 @@ export interface Driver {
     interval: number;
     completedJobsRetentionDays: number;
     cancelledJobsRetentionDays: number;
+    runHistoryRetentionDays: number;
     isRunning: boolean;
   };
 
@@ -162,12 +316,15 @@ export interface Driver {
    * Get retry configuration and error handling status.
    * @returns Object containing retry settings and error handler status
    */
-  getRetryConfig(): {
-    maxAttempts: number;
-    baseDelay: number;
-    maxDelay: number;
-    hasErrorHandler: boolean;
-  };
+  getRetryConfig(): RetryConfig;
+
+  /**
+   * Get the effective retry configuration of a job, i.e. its own retry policy
+   * merged with the service defaults.
+   * @param identifier - Unique identifier of the job
+   * @returns Promise resolving to the retry settings or null if not found
+   */
+  getRetryConfig(identifier: string): Promise<RetryConfig | null>;
 
   /**
    * Start the cron service and begin processing jobs.
@@ -178,6 +335,9 @@ export interface Driver {
   /**
    * Stop the cron service and cease processing jobs.
    * This method should be called to gracefully shut down the service.
+   * Running executions are aborted unless `drain` is set, in which case they
+   * are allowed to finish until the drain timeout elapses.
+   * @param options - Whether and how long to wait for running executions
    */
-  stop(): Promise<void>;
+  stop(options?: StopOptions): Promise<void>;
 }
@@ -0,0 +1,171 @@
+import type { Clock } from '../types';
+import { systemClock } from '../clock';
+
+/**
+ * Concurrency constraints of a single queued execution.
+ */
+export interface ExecutionSlot {
+  /** Identifier of the job the execution belongs to */
+  identifier: string;
+  /** Concurrency group of the job (null if none) */
+  group: string | null;
+  /** Maximum simultaneous executions of the job (null for unlimited) */
+  concurrency: number | null;
+}
+
+/**
+ * Snapshot of the execution queue.
+ */
+export interface QueueStats {
+  /** Number of executions currently running */
+  running: number;
+  /** Number of executions waiting for a free slot */
+  queued: number;
+  /** Time in milliseconds the longest-waiting execution has been queued */
+  oldestWaitTime: number;
+  /** Average time in milliseconds executions waited before starting */
+  averageWaitTime: number;
+}
+
+interface QueueEntry {
+  slot: ExecutionSlot;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+/**
+ * FIFO execution queue enforcing global, per-group and per-job concurrency limits.
+ * Entries that are blocked by a group or job limit do not hold back entries
+ * behind them that can run.
+ */
+export class ExecutionQueue {
+  private pending: QueueEntry[] = [];
+  private running = 0;
+  private runningByGroup = new Map<string, number>();
+  private runningByJob = new Map<string, number>();
+  private startedCount = 0;
+  private totalWaitTime = 0;
+
+  /**
+   * Create a new execution queue.
+   * @param concurrency - Maximum simultaneous executions overall
+   * @param groupConcurrency - Maximum simultaneous executions per group
+   * @param clock - Clock the wait times are measured with
+   */
+  public constructor(
+    private concurrency: number = Infinity,
+    private groupConcurrency: Record<string, number> = {},
+    private clock: Pick<Clock, 'now'> = systemClock
+  ) {
+    ExecutionQueue.validateLimit(concurrency);
+    for (const limit of Object.values(groupConcurrency)) {
+      ExecutionQueue.validateLimit(limit);
+    }
+  }
+
+  /**
+   * Ensure a concurrency limit is a positive number.
+   * @param limit - Limit to validate
+   */
+  public static validateLimit(limit: number): void {
+    if (!(limit >= 1)) {
+      throw new RangeError(`Concurrency limit must be at least 1: ${limit}`);
+    }
+  }
+
+  /**
+   * Run a task as soon as the concurrency limits of its slot allow.
+   * @param slot - Concurrency constraints of the execution
+   * @param task - Function performing the execution
+   * @returns Promise resolving to the result of the task
+   */
+  public async run<T>(slot: ExecutionSlot, task: () => Promise<T>): Promise<T> {
+    await new Promise<void>((resolve) => {
+      this.pending.push({ slot, enqueuedAt: this.clock.now(), start: resolve });
+      this.dispatch();
+    });
+
+    try {
+      return await task();
+    } finally {
+      this.release(slot);
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Get the current queue depth and wait times.
+   * @returns Snapshot of the queue
+   */
+  public getStats(): QueueStats {
+    const now = this.clock.now();
+    return {
+      running: this.running,
+      queued: this.pending.length,
+      oldestWaitTime:
+        this.pending.length > 0 ? now - this.pending[0].enqueuedAt : 0,
+      averageWaitTime:
+        this.startedCount > 0 ? this.totalWaitTime / this.startedCount : 0,
+    };
+  }
+
+  private canStart(slot: ExecutionSlot): boolean {
+    if (this.running >= this.concurrency) return false;
+
+    if (slot.group !== null && slot.group in this.groupConcurrency) {
+      const groupRunning = this.runningByGroup.get(slot.group) ?? 0;
+      if (groupRunning >= this.groupConcurrency[slot.group]) return false;
+    }
+
+    if (slot.concurrency !== null) {
+      const jobRunning = this.runningByJob.get(slot.identifier) ?? 0;
+      if (jobRunning >= slot.concurrency) return false;
+    }
+
+    return true;
+  }
+
+  private dispatch(): void {
+    for (let i = 0; i < this.pending.length;) {
+      if (this.running >= this.concurrency) return;
+
+      const entry = this.pending[i];
+      if (!this.canStart(entry.slot)) {
+        i++;
+        continue;
+      }
+
+      this.pending.splice(i, 1);
+      this.acquire(entry.slot);
+      this.startedCount++;
+      this.totalWaitTime += this.clock.now() - entry.enqueuedAt;
+      entry.start();
+    }
+  }
+
+  private acquire(slot: ExecutionSlot): void {
+    this.running++;
+    if (slot.group !== null) {
+      this.runningByGroup.set(
+        slot.group,
+        (this.runningByGroup.get(slot.group) ?? 0) + 1
+      );
+    }
+    this.runningByJob.set(
+      slot.identifier,
+      (this.runningByJob.get(slot.identifier) ?? 0) + 1
+    );
+  }
+
+  private release(slot: ExecutionSlot): void {
+    this.running--;
+    if (slot.group !== null) {
+      const count = (this.runningByGroup.get(slot.group) ?? 1) - 1;
+      if (count > 0) this.runningByGroup.set(slot.group, count);
+      else this.runningByGroup.delete(slot.group);
+    }
+    const count = (this.runningByJob.get(slot.identifier) ?? 1) - 1;
+    if (count > 0) this.runningByJob.set(slot.identifier, count);
+    else this.runningByJob.delete(slot.identifier);
+  }
+}
@@ -0,0 +1,498 @@
+import type {
+  CronJob,
+  CronJobRun,
+  CronJobRunOutcome,
+  CronServiceConfig,
+} from '../types';
+import type { DueJobQuery, JobQuery, JobRecord, RunQuery } from './base.driver';
+import { BaseDriver } from './base.driver';
+
+/**
+ * Configuration options for the in-memory driver.
+ * Everything but the database path of the SQLite driver applies.
+ */
+export type MemoryDriverConfig = Omit<CronServiceConfig, 'db'>;
+
+/**
+ * Compare two strings the way SQLite sorts text, i.e. by their UTF-8 bytes.
+ */
+function compareText(a: string, b: string): number {
+  return Buffer.compare(Buffer.from(a), Buffer.from(b));
+}
+
+/**
+ * Driver that keeps jobs and run history in plain in-process data structures.
+ * It shares its scheduling and execution with the SQLite driver, so status
+ * transitions, cleanup, statistics and retries behave exactly the same, but
+ * it needs neither `node:sqlite` nor a file. Jobs survive `stop()` and
+ * `start()`, and are discarded when the driver is destroyed or the process
+ * exits.
+ *
+ * Useful for unit-testing scheduling logic and for short-lived CLIs.
+ *
+ * @example
+ * ```typescript
+ * const service = new CronService(new MemoryDriver({ retry: { maxAttempts: 1 } }));
+ * ```
+ */
+export class MemoryDriver extends BaseDriver {
+  private jobs = new Map<string, JobRecord>();
+  private runs = new Map<number, CronJobRun>();
+  private lastRunId = 0;
+
+  /**
+   * Create a new in-memory driver instance.
+   * @param config - Configuration options for the driver
+   */
+  public constructor(config: MemoryDriverConfig = {}) {
+    super(config);
+  }
+
+  protected async openStore(): Promise<void> {
+    // Nothing to open; jobs are kept until the store is closed
+  }
+
+  protected closeStore(): void {
+    this.jobs.clear();
+    this.runs.clear();
+    this.lastRunId = 0;
+  }
+
+  /**
+   * Whether no other worker holds an unexpired lease on a job.
+   */
+  private isClaimable(job: JobRecord, now: number): boolean {
+    return (
+      job.lease_owner === null ||
+      job.lease_owner === this.workerId ||
+      (job.lease_expires_at !== null && job.lease_expires_at <= now)
+    );
+  }
+
+  private matchesHandler(job: JobRecord, handlerName?: string): boolean {
+    return handlerName === undefined || job.handler_name === handlerName;
+  }
+
+  /**
+   * Copy the jobs matching a predicate, sorted and limited.
+   */
+  private selectJobs(
+    predicate: (job: JobRecord) => boolean,
+    compare: (a: JobRecord, b: JobRecord) => number,
+    limit?: number
+  ): JobRecord[] {
+    const jobs: JobRecord[] = [];
+    for (const job of this.jobs.values()) {
+      if (predicate(job)) {
+        jobs.push({ ...job });
+      }
+    }
+    return jobs.sort(compare).slice(0, limit);
+  }
+
+  protected insertJob(job: JobRecord, replace: boolean): boolean {
+    if (this.jobs.has(job.identifier)) {
+      if (!replace) return false;
+
+      // A replaced job is a new row, sorted after existing ones
+      this.jobs.delete(job.identifier);
+    }
+    this.jobs.set(job.identifier, { ...job });
+    return true;
+  }
+
+  protected getJob(identifier: string): JobRecord | undefined {
+    const job = this.jobs.get(identifier);
+    return job ? { ...job } : undefined;
+  }
+
+  protected updateJob(
+    identifier: string,
+    changes: Partial<JobRecord>,
+    status?: CronJob['status']
+  ): boolean {
+    const job = this.jobs.get(identifier);
+    if (!job || (status !== undefined && job.status !== status)) {
+      return false;
+    }
+    Object.assign(job, changes);
+    return true;
+  }
+
+  protected queryJobs(query: JobQuery): JobRecord[] {
+    const { orderBy } = query;
+
+    return this.selectJobs(
+      (job) => {
+        if (
+          query.statuses !== undefined &&
+          !query.statuses.includes(job.status)
+        ) {
+          return false;
+        }
+        if (
+          query.identifierPrefix &&
+          !job.identifier.startsWith(query.identifierPrefix)
+        ) {
+          return false;
+        }
+        if (query.tags?.length) {
+          const tags: string[] = JSON.parse(job.tags);
+          if (!query.tags.every((tag) => tags.includes(tag))) {
+            return false;
+          }
+        }
+        if (
+          query.nextRunBefore !== undefined &&
+          !(job.next_run < query.nextRunBefore)
+        ) {
+          return false;
+        }
+        if (
+          query.nextRunAfter !== undefined &&
+          !(job.next_run > query.nextRunAfter)
+        ) {
+          return false;
+        }
+        if (query.after) {
+          const [value, identifier] = query.after;
+          const after = compareText(job.identifier, identifier) > 0;
+          if (orderBy === 'identifier') {
+            return after;
+          }
+          return (
+            value !== null &&
+            (job[orderBy] > value || (job[orderBy] === value && after))
+          );
+        }
+        return true;
+      },
+      (a, b) =>
+        (orderBy === 'identifier' ? 0 : a[orderBy] - b[orderBy]) ||
+        compareText(a.identifier, b.identifier),
+      query.limit
+    );
+  }
+
+  protected findDueJobs(query: DueJobQuery): JobRecord[] {
+    return this.selectJobs(
+      (job) =>
+        job.status === 'active' &&
+        job.next_run <= query.until &&
+        (query.after === undefined || job.next_run > query.after) &&
+        this.matchesHandler(job, query.handlerName),
+      (a, b) =>
+        a.next_run - b.next_run || compareText(a.identifier, b.identifier),
+      query.limit
+    );
+  }
+
+  protected findMisfiredJobs(query: DueJobQuery): JobRecord[] {
+    return this.selectJobs(
+      (job) =>
+        job.status === 'active' &&
+        job.next_run <= query.until &&
+        (job.retry_at === null ||
+          (job.schedule_type !== 'once' &&
+            job.retry_scheduled_for !== null &&
+            job.retry_scheduled_for !== job.next_run)) &&
+        this.matchesHandler(job, query.handlerName),
+      (a, b) => a.next_run - b.next_run,
+      query.limit
+    );
+  }
+
+  protected findDueRetries(query: DueJobQuery): JobRecord[] {
+    return this.selectJobs(
+      (job) =>
+        job.status === 'active' &&
+        job.retry_at !== null &&
+        job.retry_at <= query.until &&
+        this.matchesHandler(job, query.handlerName),
+      (a, b) => a.retry_at! - b.retry_at!,
+      query.limit
+    );
+  }
+
+  protected countJobs(
+    status: CronJob['status'],
+    nextRunUntil?: number
+  ): number {
+    let count = 0;
+    for (const job of this.jobs.values()) {
+      if (
+        job.status === status &&
+        (nextRunUntil === undefined || job.next_run <= nextRunUntil)
+      ) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  protected countJobsByStatus(): Array<{
+    status: CronJob['status'];
+    count: number;
+    runs: number;
+  }> {
+    const counts = new Map<
+      CronJob['status'],
+      { status: CronJob['status']; count: number; runs: number }
+    >();
+    for (const job of this.jobs.values()) {
+      const entry = counts.get(job.status) ?? {
+        status: job.status,
+        count: 0,
+        runs: 0,
+      };
+      entry.count++;
+      entry.runs += job.run_count;
+      counts.set(job.status, entry);
+    }
+    return [...counts.values()];
+  }
+
+  protected deleteJobs(
+    status: CronJob['status'],
+    updatedBefore: number
+  ): number {
+    let removed = 0;
+    for (const [identifier, job] of this.jobs) {
+      if (job.status === status && job.updated_at < updatedBefore) {
+        this.jobs.delete(identifier);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  protected claimJob(
+    identifier: string,
+    scheduledFor: number,
+    followingRun: number | null
+  ): boolean {
+    const now = this.clock.now();
+    const job = this.jobs.get(identifier);
+    if (
+      !job ||
+      job.status !== 'active' ||
+      job.next_run !== scheduledFor ||
+      !this.isClaimable(job, now)
+    ) {
+      return false;
+    }
+
+    job.next_run = followingRun ?? job.next_run;
+    job.lease_owner = this.workerId;
+    job.lease_expires_at = now + this.leaseDuration;
+    return true;
+  }
+
+  protected claimManualRun(identifier: string): boolean {
+    const now = this.clock.now();
+    const job = this.jobs.get(identifier);
+    if (!job || job.status === 'cancelled' || !this.isClaimable(job, now)) {
+      return false;
+    }
+
+    job.lease_owner = this.workerId;
+    job.lease_expires_at = now + this.leaseDuration;
+    return true;
+  }
+
+  protected claimRetry(identifier: string, retryAt: number): boolean {
+    const now = this.clock.now();
+    const job = this.jobs.get(identifier);
+    if (
+      !job ||
+      job.status !== 'active' ||
+      job.retry_at !== retryAt ||
+      !this.isClaimable(job, now)
+    ) {
+      return false;
+    }
+
+    Object.assign(job, {
+      retry_at: null,
+      retry_attempt: null,
+      retry_scheduled_for: null,
+      retry_delay: null,
+      retry_trigger: null,
+      lease_owner: this.workerId,
+      lease_expires_at: now + this.leaseDuration,
+    });
+    return true;
+  }
+
+  protected renewLeases(): void {
+    const expiresAt = this.clock.now() + this.leaseDuration;
+    for (const job of this.jobs.values()) {
+      if (job.lease_owner === this.workerId) {
+        job.lease_expires_at = expiresAt;
+      }
+    }
+  }
+
+  protected releaseLease(identifier: string): void {
+    const job = this.jobs.get(identifier);
+    if (job?.lease_owner === this.workerId) {
+      job.lease_owner = null;
+      job.lease_expires_at = null;
+    }
+  }
+
+  protected storeRetry(
+    identifier: string,
+    retry: Pick<
+      JobRecord,
+      | 'retry_at'
+      | 'retry_attempt'
+      | 'retry_scheduled_for'
+      | 'retry_delay'
+      | 'retry_trigger'
+    >,
+    now: number,
+    releaseLease: boolean
+  ): boolean {
+    const job = this.jobs.get(identifier);
+    if (job?.lease_owner !== this.workerId) {
+      return false;
+    }
+
+    Object.assign(job, retry, { updated_at: now });
+    if (releaseLease) {
+      job.lease_owner = null;
+      job.lease_expires_at = null;
+    }
+    return true;
+  }
+
+  protected recordExecution(
+    identifier: string,
+    update: {
+      started: boolean;
+      consecutiveFailures: number;
+      status: CronJob['status'];
+      now: number;
+    },
+    releaseLease: boolean
+  ): void {
+    const job = this.jobs.get(identifier);
+    if (job?.lease_owner !== this.workerId) {
+      return;
+    }
+
+    if (update.started) {
+      job.last_run = update.now;
+      job.run_count++;
+    }
+    job.consecutive_failures = update.consecutiveFailures;
+    job.status = update.status;
+    job.updated_at = update.now;
+    if (releaseLease) {
+      job.lease_owner = null;
+      job.lease_expires_at = null;
+    }
+  }
+
+  protected skipMisfiredRun(
+    identifier: string,
+    nextRun: number,
+    followingRun: number,
+    now: number
+  ): boolean {
+    const job = this.jobs.get(identifier);
+    if (
+      !job ||
+      job.next_run !== nextRun ||
+      !(
+        job.lease_owner === null ||
+        (job.lease_expires_at !== null && job.lease_expires_at <= now)
+      )
+    ) {
+      return false;
+    }
+
+    job.next_run = followingRun;
+    job.updated_at = now;
+    return true;
+  }
+
+  protected completeIdleJob(
+    identifier: string,
+    nextRun: number,
+    now: number
+  ): boolean {
+    const job = this.jobs.get(identifier);
+    if (
+      !job ||
+      job.status !== 'active' ||
+      job.next_run !== nextRun ||
+      !this.isClaimable(job, now)
+    ) {
+      return false;
+    }
+
+    job.status = 'completed';
+    job.updated_at = now;
+    return true;
+  }
+
+  protected insertRun(run: Omit<CronJobRun, 'id'>): number {
+    const id = ++this.lastRunId;
+    this.runs.set(id, { id, ...run });
+    return id;
+  }
+
+  protected recordRunEnd(
+    runId: number,
+    outcome: CronJobRunOutcome,
+    error?: Error
+  ): void {
+    const run = this.runs.get(runId);
+    if (!run) return;
+
+    const now = this.clock.now();
+    run.outcome = outcome;
+    run.finished_at = now;
+    run.duration = now - run.started_at;
+    run.error_message = error?.message ?? null;
+    run.error_stack = error?.stack ?? null;
+  }
+
+  protected findRuns(query: RunQuery): CronJobRun[] {
+    const runs: CronJobRun[] = [];
+    const all = [...this.runs.values()];
+
+    // Runs are kept in order of their id, so walk them newest first
+    for (let i = all.length - 1; i >= 0 && runs.length < query.limit; i--) {
+      const run = all[i];
+      if (
+        (query.identifier === undefined ||
+          run.identifier === query.identifier) &&
+        (query.outcome === undefined || run.outcome === query.outcome) &&
+        (query.before === null || run.id < query.before) &&
+        (query.since === null || run.started_at >= query.since)
+      ) {
+        runs.push({ ...run });
+      }
+    }
+    return runs;
+  }
+
+  protected pruneOrphanedRuns(): void {
+    for (const [id, run] of this.runs) {
+      if (!this.jobs.has(run.identifier)) {
+        this.runs.delete(id);
+      }
+    }
+  }
+
+  protected deleteRunsFinishedBefore(time: number): void {
+    for (const [id, run] of this.runs) {
+      if (run.finished_at !== null && run.finished_at < time) {
+        this.runs.delete(id);
+      }
+    }
+  }
+}
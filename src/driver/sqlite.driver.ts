@@ -1,787 +1,557 @@
-import type { Driver } from './driver';
-import type { DatabaseSync } from 'node:sqlite';
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite';
 import type {
   CronJob,
-  CronHandler,
-  ScheduleInput,
+  CronJobRun,
+  CronJobRunOutcome,
   CronServiceConfig,
+  StopOptions,
 } from '../types';
-import * as crypto from 'node:crypto';
-import { CronExpressionParser } from 'cron-parser';
+import type { DueJobQuery, JobQuery, JobRecord, RunQuery } from './base.driver';
+import { BaseDriver } from './base.driver';
+import { migrate } from './sqlite.migrations';
 
 /**
  * SQLite-based driver for cron job storage and execution.
  * Provides persistent storage with automatic job scheduling and execution.
  */
-export class SqliteDriver implements Driver {
+export class SqliteDriver extends BaseDriver {
   private db!: DatabaseSync;
-  private handlers = new Map<string, CronHandler>();
-  private activeJobs = new Map<string, NodeJS.Timeout>();
-  private chunkSize: number;
-  private refreshInterval: number;
-  private lookAheadWindow: number;
-  private refreshTimer: NodeJS.Timeout | null = null;
-  private isRunning = false;
-  public isInitialized = false;
-
-  // Auto-cleanup properties
-  private autoCleanupEnabled: boolean;
-  private autoCleanupInterval: number;
-  private completedJobsRetentionDays: number;
-  private cancelledJobsRetentionDays: number;
-  private autoCleanupTimer: NodeJS.Timeout | null = null;
-
-  // Retry configuration
-  private maxRetryAttempts: number;
-  private retryBaseDelay: number;
-  private retryMaxDelay: number;
-  private onErrorHandler?: (jobId: string, error: Error) => void;
 
   /**
    * Create a new SQLite driver instance.
    * @param config - Configuration options for the driver
    */
   public constructor(private config: CronServiceConfig) {
-    this.chunkSize = config.chunkSize || 1000;
-    this.refreshInterval = config.refreshInterval || 24 * 60 * 60 * 1000;
-    this.lookAheadWindow = config.lookAheadWindow || 25 * 60 * 60 * 1000;
-
-    // Initialize auto-cleanup settings
-    this.autoCleanupEnabled = config.autoCleanup?.enabled ?? true;
-    this.autoCleanupInterval =
-      config.autoCleanup?.interval ?? 24 * 60 * 60 * 1000;
-    this.completedJobsRetentionDays =
-      config.autoCleanup?.completedJobsRetentionDays ?? 7;
-    this.cancelledJobsRetentionDays =
-      config.autoCleanup?.cancelledJobsRetentionDays ?? 30;
-
-    // Initialize retry settings
-    this.maxRetryAttempts = config.retry?.maxAttempts ?? 3;
-    this.retryBaseDelay = config.retry?.baseDelay ?? 1000;
-    this.retryMaxDelay = config.retry?.maxDelay ?? 30000;
-    this.onErrorHandler = config.onError;
+    super(config);
   }
 
   /**
-   * Initialize the driver and prepare the database.
-   * This method must be called before using any other driver methods.
+   * Stop the cron service and cease processing jobs.
+   * No new occurrences are started once this method is called. Running
+   * executions are aborted, or with `drain` allowed to finish until the drain
+   * timeout elapses; pending retries stay in the database and run once the
+   * service is started again. The database connection is closed
+   * once the results of all executions have been recorded.
+   * @param options - Whether and how long to wait for running executions
    */
-  public async init(): Promise<void> {
-    if (this.isInitialized) return;
-
-    const { DatabaseSync } = await import('node:sqlite');
+  public async stop(options: StopOptions = {}): Promise<void> {
+    await super.stop(options);
 
-    this.db = new DatabaseSync(this.config.db, { open: true });
+    if (this.db?.isOpen) {
+      this.db.close();
+    }
 
-    this.initializeDatabase();
-    this.isInitialized = true;
+    // Reopen the database if the driver is used again
+    this.isInitialized = false;
   }
 
-  /**
-   * Clean up resources and close database connections.
-   * This method should be called when the driver is no longer needed.
-   */
-  public async destroy(): Promise<void> {
-    await this.stop();
+  protected async openStore(): Promise<void> {
+    const { DatabaseSync } = await import('node:sqlite');
 
-    // Ensure auto-cleanup is stopped
-    this.stopAutoCleanup();
+    this.db = new DatabaseSync(this.config.db, { open: true });
 
-    if (this.db) {
+    try {
+      this.initializeDatabase();
+    } catch (error) {
       this.db.close();
-      this.db = undefined as any;
+      throw error;
     }
-
-    this.handlers.clear();
-    this.activeJobs.clear();
-    this.isInitialized = false;
   }
 
-  private async ensureDatabase() {
-    if (!this.isInitialized) {
-      await this.init();
+  protected closeStore(): void {
+    if (this.db?.isOpen) {
+      this.db.close();
     }
+    this.db = undefined as any;
   }
 
   private initializeDatabase(): void {
     this.db.exec(/* sql */ `PRAGMA journal_mode = WAL;`);
+    this.db.exec(/* sql */ `PRAGMA busy_timeout = 5000;`);
 
-    this.db.exec(/* sql */ `
-      CREATE TABLE IF NOT EXISTS cron_jobs (
-        id TEXT PRIMARY KEY,
-        cron_expression TEXT,
-        specific_time INTEGER,
-        identifier TEXT UNIQUE NOT NULL,
-        status TEXT NOT NULL CHECK (status IN ('active', 'paused', 'cancelled', 'completed')),
-        next_run INTEGER NOT NULL,
-        last_run INTEGER,
-        run_count INTEGER NOT NULL DEFAULT 0,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL,
-        CONSTRAINT check_schedule_type CHECK (
-          (cron_expression IS NOT NULL AND specific_time IS NULL) OR
-          (cron_expression IS NULL AND specific_time IS NOT NULL)
-        )
-      )
-    `);
-
-    this.db.exec(/* sql */ `
-      CREATE INDEX IF NOT EXISTS idx_cron_jobs_status_next_run 
-      ON cron_jobs(status, next_run)
-    `);
-
-    this.db.exec(/* sql */ `
-      CREATE INDEX IF NOT EXISTS idx_cron_jobs_identifier 
-      ON cron_jobs(identifier)
-    `);
+    migrate(this.db);
+  }
 
-    this.db.exec(/* sql */ `
-      CREATE INDEX IF NOT EXISTS idx_cron_jobs_run_count 
-      ON cron_jobs(run_count)
+  protected insertJob(job: JobRecord, replace: boolean): boolean {
+    const columns = Object.keys(job);
+    const stmt = this.db.prepare(/* sql */ `
+      INSERT ${replace ? 'OR REPLACE' : ''} INTO cron_jobs
+      (${columns.join(', ')})
+      VALUES (${columns.map(() => '?').join(', ')})
+      ${replace ? '' : 'ON CONFLICT (identifier) DO NOTHING'}
     `);
-  }
 
-  private parseScheduleInput(input: ScheduleInput): {
-    cronExpression: string | null;
-    specificTime: number | null;
-    nextRun: number;
-  } {
-    if (typeof input === 'string') {
-      try {
-        const interval = CronExpressionParser.parse(input);
-        const nextRun = interval.next().getTime();
-        return {
-          cronExpression: input,
-          specificTime: null,
-          nextRun,
-        };
-      } catch (error) {
-        throw new Error(`Invalid cron expression: ${input}`);
-      }
-    } else {
-      const timestamp = input instanceof Date ? input.getTime() : input;
-      if (timestamp <= Date.now()) {
-        throw new Error('Specific time must be in the future');
-      }
-      return {
-        cronExpression: null,
-        specificTime: timestamp,
-        nextRun: timestamp,
-      };
-    }
+    const result = stmt.run(...(Object.values(job) as SQLInputValue[]));
+    return result.changes > 0;
   }
 
-  private calculateNextRun(cronExpression: string): number {
-    try {
-      const interval = CronExpressionParser.parse(cronExpression);
-      return interval.next().getTime();
-    } catch (error) {
-      throw new Error(
-        `Error calculating next run for cron expression: ${cronExpression}`
-      );
-    }
+  protected getJob(identifier: string): JobRecord | undefined {
+    const stmt = this.db.prepare(/* sql */ `
+      SELECT * FROM cron_jobs WHERE identifier = ?
+    `);
+    return stmt.get(identifier) as JobRecord | undefined;
   }
 
-  /**
-   * Schedule a new cron job for execution.
-   * Supports both cron expressions (using cron-parser) and specific timestamps.
-   *
-   * @param scheduleInput - Cron expression, timestamp, or Date object
-   * @param identifier - Unique identifier for the job
-   * @param handler - Function to execute when the job runs
-   * @returns Promise resolving to the job ID
-   *
-   * @example
-   * ```typescript
-   * // Schedule a job that runs every minute
-   * await driver.schedule('* * * * *', 'my-job', async () => {
-   *   console.log('Job executed!');
-   * });
-   *
-   * // Schedule a job that runs every hour
-   * await driver.schedule('0 * * * *', 'hourly-job', async () => {
-   *   console.log('Hourly job executed!');
-   * });
-   *
-   * // Schedule a one-time job
-   * await driver.schedule(Date.now() + 60000, 'one-time-job', async () => {
-   *   console.log('One-time job executed!');
-   * });
-   * ```
-   */
-  public async schedule(
-    scheduleInput: ScheduleInput,
+  protected updateJob(
     identifier: string,
-    handler: CronHandler
-  ): Promise<string> {
-    await this.ensureDatabase();
-
-    const id = crypto.randomUUID();
-    const now = Date.now();
-    const { cronExpression, specificTime, nextRun } =
-      this.parseScheduleInput(scheduleInput);
-
-    this.handlers.set(identifier, handler);
-
+    changes: Partial<JobRecord>,
+    status?: CronJob['status']
+  ): boolean {
+    const columns = Object.keys(changes);
     const stmt = this.db.prepare(/* sql */ `
-      INSERT OR REPLACE INTO cron_jobs 
-      (id, cron_expression, specific_time, identifier, status, next_run, last_run, run_count, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      UPDATE cron_jobs
+      SET ${columns.map((column) => `${column} = ?`).join(', ')}
+      WHERE identifier = ? AND (? IS NULL OR status = ?)
     `);
-
-    stmt.run(
-      id,
-      cronExpression,
-      specificTime,
+    const result = stmt.run(
+      ...(Object.values(changes) as SQLInputValue[]),
       identifier,
-      'active',
-      nextRun,
-      null,
-      0,
-      now,
-      now
+      status ?? null,
+      status ?? null
     );
-
-    if (nextRun <= Date.now() + this.lookAheadWindow) {
-      this.scheduleJobExecution(identifier, nextRun);
-    }
-
-    if (!this.isRunning) {
-      await this.start();
-    }
-
-    return id;
-  }
-
-  public async cancel(identifier: string): Promise<boolean> {
-    await this.ensureDatabase();
-
-    const stmt = this.db.prepare(/* sql */ `
-      UPDATE cron_jobs 
-      SET status = 'cancelled', updated_at = ? 
-      WHERE identifier = ?
-    `);
-    const result = stmt.run(Date.now(), identifier);
-
-    this.clearJobExecution(identifier);
-    this.handlers.delete(identifier);
-
     return result.changes > 0;
   }
 
-  public async pause(identifier: string): Promise<boolean> {
-    await this.ensureDatabase();
+  protected queryJobs(query: JobQuery): JobRecord[] {
+    const { orderBy } = query;
+    const conditions: string[] = [];
+    const params: SQLInputValue[] = [];
 
-    const stmt = this.db.prepare(/* sql */ `
-      UPDATE cron_jobs 
-      SET status = 'paused', updated_at = ? 
-      WHERE identifier = ?
-    `);
-    const result = stmt.run(Date.now(), identifier);
+    if (query.statuses !== undefined) {
+      conditions.push(
+        `status IN (${query.statuses.map(() => '?').join(', ') || 'NULL'})`
+      );
+      params.push(...query.statuses);
+    }
 
-    this.clearJobExecution(identifier);
-    return result.changes > 0;
-  }
+    if (query.identifierPrefix) {
+      // Range condition so the identifier index can be used
+      conditions.push('identifier >= ? AND identifier < ?');
+      params.push(
+        query.identifierPrefix,
+        query.identifierPrefix + '\u{10FFFF}'
+      );
+    }
 
-  public async resume(identifier: string): Promise<boolean> {
-    await this.ensureDatabase();
+    if (query.tags?.length) {
+      conditions.push(/* sql */ `NOT EXISTS (
+        SELECT 1 FROM json_each(?) AS wanted
+        WHERE wanted.value NOT IN (SELECT value FROM json_each(cron_jobs.tags))
+      )`);
+      params.push(JSON.stringify(query.tags));
+    }
 
-    const stmt = this.db.prepare(/* sql */ `
-      UPDATE cron_jobs 
-      SET status = 'active', updated_at = ? 
-      WHERE identifier = ?
-    `);
-    const result = stmt.run(Date.now(), identifier);
+    if (query.nextRunBefore !== undefined) {
+      conditions.push('next_run < ?');
+      params.push(query.nextRunBefore);
+    }
 
-    if (result.changes > 0) {
-      await this.loadAndScheduleChunk();
-      return true;
+    if (query.nextRunAfter !== undefined) {
+      conditions.push('next_run > ?');
+      params.push(query.nextRunAfter);
     }
-    return false;
-  }
 
-  public async get(identifier: string): Promise<CronJob | null> {
-    await this.ensureDatabase();
+    if (query.after) {
+      const [value, identifier] = query.after;
+      if (orderBy === 'identifier') {
+        conditions.push('identifier > ?');
+        params.push(identifier);
+      } else {
+        conditions.push(
+          `(${orderBy} > ? OR (${orderBy} = ? AND identifier > ?))`
+        );
+        params.push(value, value, identifier);
+      }
+    }
 
     const stmt = this.db.prepare(/* sql */ `
-      SELECT * FROM cron_jobs WHERE identifier = ?
+      SELECT * FROM cron_jobs
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ${orderBy === 'identifier' ? 'identifier' : `${orderBy}, identifier`}
+      LIMIT ?
     `);
-    const result = stmt.get(identifier);
-    return result ? (result as unknown as CronJob) : null;
-  }
 
-  public async getJobStatus(identifier: string): Promise<CronJob | null> {
-    return this.get(identifier);
+    return stmt.all(...params, query.limit) as unknown as JobRecord[];
   }
 
-  public async getJobRunCount(identifier: string): Promise<number> {
-    await this.ensureDatabase();
-
+  protected findDueJobs(query: DueJobQuery): JobRecord[] {
     const stmt = this.db.prepare(/* sql */ `
-      SELECT run_count FROM cron_jobs WHERE identifier = ?
+      SELECT * FROM cron_jobs
+      WHERE status = 'active'
+        AND next_run <= ?
+        AND (? IS NULL OR next_run > ?)
+        AND (? IS NULL OR handler_name = ?)
+      ORDER BY next_run, identifier
+      LIMIT ?
     `);
-    const result = stmt.get(identifier) as { run_count: number } | null;
-    return result?.run_count || 0;
-  }
 
-  public async getActiveJobsCount(): Promise<number> {
-    await this.ensureDatabase();
-
-    const stmt = this.db.prepare(/* sql */ `
-      SELECT COUNT(*) as count FROM cron_jobs WHERE status = 'active'
-    `);
-    const result = stmt.get() as { count: number };
-    return result.count;
+    return stmt.all(
+      query.until,
+      query.after ?? null,
+      query.after ?? null,
+      query.handlerName ?? null,
+      query.handlerName ?? null,
+      query.limit ?? -1
+    ) as unknown as JobRecord[];
   }
 
-  public async getCompletedJobsCount(): Promise<number> {
-    await this.ensureDatabase();
-
+  protected findMisfiredJobs(query: DueJobQuery): JobRecord[] {
     const stmt = this.db.prepare(/* sql */ `
-      SELECT COUNT(*) as count FROM cron_jobs WHERE status = 'completed'
+      SELECT * FROM cron_jobs
+      WHERE status = 'active'
+        AND next_run <= ?
+        AND (retry_at IS NULL OR (schedule_type != 'once' AND retry_scheduled_for != next_run))
+        AND (? IS NULL OR handler_name = ?)
+      ORDER BY next_run
+      LIMIT ?
     `);
-    const result = stmt.get() as { count: number };
-    return result.count;
-  }
 
-  public async getTotalRunsCount(): Promise<number> {
-    await this.ensureDatabase();
+    return stmt.all(
+      query.until,
+      query.handlerName ?? null,
+      query.handlerName ?? null,
+      query.limit ?? -1
+    ) as unknown as JobRecord[];
+  }
 
+  protected findDueRetries(query: DueJobQuery): JobRecord[] {
     const stmt = this.db.prepare(/* sql */ `
-      SELECT SUM(run_count) as total FROM cron_jobs
+      SELECT * FROM cron_jobs
+      WHERE status = 'active'
+        AND retry_at IS NOT NULL
+        AND retry_at <= ?
+        AND (? IS NULL OR handler_name = ?)
+      ORDER BY retry_at
+      LIMIT ?
     `);
-    const result = stmt.get() as { total: number | bigint };
-    return Number(result.total) || 0;
-  }
 
-  public async getJobsInWindow(): Promise<number> {
-    await this.ensureDatabase();
+    return stmt.all(
+      query.until,
+      query.handlerName ?? null,
+      query.handlerName ?? null,
+      query.limit ?? -1
+    ) as unknown as JobRecord[];
+  }
 
-    const windowEnd = Date.now() + this.lookAheadWindow;
+  protected countJobs(
+    status: CronJob['status'],
+    nextRunUntil?: number
+  ): number {
     const stmt = this.db.prepare(/* sql */ `
-      SELECT COUNT(*) as count 
-      FROM cron_jobs 
-      WHERE status = 'active' AND next_run <= ?
+      SELECT COUNT(*) as count
+      FROM cron_jobs
+      WHERE status = ? AND (? IS NULL OR next_run <= ?)
     `);
-    const result = stmt.get(windowEnd) as { count: number };
+    const result = stmt.get(
+      status,
+      nextRunUntil ?? null,
+      nextRunUntil ?? null
+    ) as { count: number };
     return result.count;
   }
 
-  public async getJobStats(): Promise<{
-    total: number;
-    active: number;
-    paused: number;
-    cancelled: number;
-    completed: number;
-    totalRuns: number;
+  protected countJobsByStatus(): Array<{
+    status: CronJob['status'];
+    count: number;
+    runs: number;
   }> {
-    await this.ensureDatabase();
-
     const stmt = this.db.prepare(/* sql */ `
-      SELECT 
+      SELECT
         status,
         COUNT(*) as count,
         SUM(run_count) as runs
-      FROM cron_jobs 
+      FROM cron_jobs
       GROUP BY status
     `);
 
     const results = stmt.all() as Array<{
-      status: string;
+      status: CronJob['status'];
       count: number;
       runs: number | bigint;
     }>;
 
-    const stats = {
-      total: 0,
-      active: 0,
-      paused: 0,
-      cancelled: 0,
-      completed: 0,
-      totalRuns: 0,
-    };
-
-    for (const result of results) {
-      stats.total += result.count;
-      stats.totalRuns += Number(result.runs) || 0;
-
-      switch (result.status) {
-        case 'active':
-          stats.active = result.count;
-          break;
-        case 'paused':
-          stats.paused = result.count;
-          break;
-        case 'cancelled':
-          stats.cancelled = result.count;
-          break;
-        case 'completed':
-          stats.completed = result.count;
-          break;
-      }
-    }
-
-    return stats;
+    return results.map((result) => ({
+      ...result,
+      runs: Number(result.runs) || 0,
+    }));
   }
 
-  /**
-   * Clean up old cancelled jobs that are older than the specified number of days.
-   * @param olderThanDays - Number of days after which cancelled jobs should be removed (default: 30)
-   * @returns Number of jobs that were removed
-   */
-  public async cleanupOldJobs(olderThanDays: number = 30): Promise<number> {
-    await this.ensureDatabase();
-
-    const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+  protected deleteJobs(
+    status: CronJob['status'],
+    updatedBefore: number
+  ): number {
     const stmt = this.db.prepare(/* sql */ `
-      DELETE FROM cron_jobs 
-      WHERE status = 'cancelled' AND updated_at < ?
+      DELETE FROM cron_jobs
+      WHERE status = ? AND updated_at < ?
     `);
-    const result = stmt.run(cutoff);
+    const result = stmt.run(status, updatedBefore);
     return Number(result.changes);
   }
 
-  /**
-   * Clean up completed jobs that are older than the specified number of days.
-   * @param olderThanDays - Number of days after which completed jobs should be removed (default: 7)
-   * @returns Number of jobs that were removed
-   */
-  public async cleanupCompletedJobs(
-    olderThanDays: number = 7
-  ): Promise<number> {
-    await this.ensureDatabase();
-
-    const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+  protected claimJob(
+    identifier: string,
+    scheduledFor: number,
+    followingRun: number | null
+  ): boolean {
+    const now = this.clock.now();
     const stmt = this.db.prepare(/* sql */ `
-      DELETE FROM cron_jobs 
-      WHERE status = 'completed' AND updated_at < ?
+      UPDATE cron_jobs
+      SET next_run = COALESCE(?, next_run), lease_owner = ?, lease_expires_at = ?
+      WHERE identifier = ?
+        AND status = 'active'
+        AND next_run = ?
+        AND (lease_owner IS NULL OR lease_owner = ? OR lease_expires_at <= ?)
     `);
-    const result = stmt.run(cutoff);
-    return Number(result.changes);
+    const result = stmt.run(
+      followingRun,
+      this.workerId,
+      now + this.leaseDuration,
+      identifier,
+      scheduledFor,
+      this.workerId,
+      now
+    );
+    return result.changes > 0;
   }
 
-  /**
-   * Clean up both completed and cancelled jobs that are older than the specified number of days.
-   * @param completedOlderThanDays - Number of days after which completed jobs should be removed (default: 7)
-   * @param cancelledOlderThanDays - Number of days after which cancelled jobs should be removed (default: 30)
-   * @returns Object containing the number of completed and cancelled jobs that were removed
-   */
-  public async cleanupAllOldJobs(
-    completedOlderThanDays: number = 7,
-    cancelledOlderThanDays: number = 30
-  ): Promise<{ completed: number; cancelled: number }> {
-    await this.ensureDatabase();
-
-    const completedCutoff =
-      Date.now() - completedOlderThanDays * 24 * 60 * 60 * 1000;
-    const cancelledCutoff =
-      Date.now() - cancelledOlderThanDays * 24 * 60 * 60 * 1000;
-
-    const completedStmt = this.db.prepare(/* sql */ `
-      DELETE FROM cron_jobs 
-      WHERE status = 'completed' AND updated_at < ?
-    `);
-    const completedResult = completedStmt.run(completedCutoff);
-
-    const cancelledStmt = this.db.prepare(/* sql */ `
-      DELETE FROM cron_jobs 
-      WHERE status = 'cancelled' AND updated_at < ?
+  protected claimManualRun(identifier: string): boolean {
+    const now = this.clock.now();
+    const stmt = this.db.prepare(/* sql */ `
+      UPDATE cron_jobs
+      SET lease_owner = ?, lease_expires_at = ?
+      WHERE identifier = ?
+        AND status != 'cancelled'
+        AND (lease_owner IS NULL OR lease_owner = ? OR lease_expires_at <= ?)
     `);
-    const cancelledResult = cancelledStmt.run(cancelledCutoff);
-
-    return {
-      completed: Number(completedResult.changes),
-      cancelled: Number(cancelledResult.changes),
-    };
+    const result = stmt.run(
+      this.workerId,
+      now + this.leaseDuration,
+      identifier,
+      this.workerId,
+      now
+    );
+    return result.changes > 0;
   }
 
-  /**
-   * Perform automatic cleanup based on configured retention settings.
-   * This method is called periodically when auto-cleanup is enabled.
-   * @returns Object containing the number of completed and cancelled jobs that were removed
-   */
-  private async performAutoCleanup(): Promise<{
-    completed: number;
-    cancelled: number;
-  }> {
-    try {
-      const result = await this.cleanupAllOldJobs(
-        this.completedJobsRetentionDays,
-        this.cancelledJobsRetentionDays
-      );
-
-      // Auto-cleanup completed silently
-
-      return result;
-    } catch (error) {
-      // Auto-cleanup error handled silently
-      return { completed: 0, cancelled: 0 };
-    }
+  protected claimRetry(identifier: string, retryAt: number): boolean {
+    const now = this.clock.now();
+    const stmt = this.db.prepare(/* sql */ `
+      UPDATE cron_jobs
+      SET retry_at = NULL, retry_attempt = NULL, retry_scheduled_for = NULL, retry_delay = NULL, retry_trigger = NULL,
+        lease_owner = ?, lease_expires_at = ?
+      WHERE identifier = ?
+        AND status = 'active'
+        AND retry_at = ?
+        AND (lease_owner IS NULL OR lease_owner = ? OR lease_expires_at <= ?)
+    `);
+    const result = stmt.run(
+      this.workerId,
+      now + this.leaseDuration,
+      identifier,
+      retryAt,
+      this.workerId,
+      now
+    );
+    return result.changes > 0;
   }
 
-  /**
-   * Start the automatic cleanup timer if enabled.
-   */
-  private startAutoCleanup(): void {
-    if (!this.autoCleanupEnabled || this.autoCleanupTimer) {
-      return;
-    }
-
-    this.autoCleanupTimer = setInterval(async () => {
-      await this.performAutoCleanup();
-    }, this.autoCleanupInterval);
+  protected renewLeases(): void {
+    const stmt = this.db.prepare(/* sql */ `
+      UPDATE cron_jobs
+      SET lease_expires_at = ?
+      WHERE lease_owner = ?
+    `);
+    stmt.run(this.clock.now() + this.leaseDuration, this.workerId);
   }
 
-  /**
-   * Stop the automatic cleanup timer.
-   */
-  private stopAutoCleanup(): void {
-    if (this.autoCleanupTimer) {
-      clearInterval(this.autoCleanupTimer);
-      this.autoCleanupTimer = null;
-    }
+  protected releaseLease(identifier: string): void {
+    const stmt = this.db.prepare(/* sql */ `
+      UPDATE cron_jobs
+      SET lease_owner = NULL, lease_expires_at = NULL
+      WHERE identifier = ? AND lease_owner = ?
+    `);
+    stmt.run(identifier, this.workerId);
   }
 
-  /**
-   * Manually trigger auto-cleanup with current settings.
-   * @returns Object containing the number of completed and cancelled jobs that were removed
-   */
-  public async triggerAutoCleanup(): Promise<{
-    completed: number;
-    cancelled: number;
-  }> {
-    return this.performAutoCleanup();
+  protected storeRetry(
+    identifier: string,
+    retry: Pick<
+      JobRecord,
+      | 'retry_at'
+      | 'retry_attempt'
+      | 'retry_scheduled_for'
+      | 'retry_delay'
+      | 'retry_trigger'
+    >,
+    now: number,
+    releaseLease: boolean
+  ): boolean {
+    const stmt = this.db.prepare(/* sql */ `
+      UPDATE cron_jobs
+      SET retry_at = ?, retry_attempt = ?, retry_scheduled_for = ?, retry_delay = ?, retry_trigger = ?, updated_at = ?,
+        lease_owner = CASE WHEN ? THEN NULL ELSE lease_owner END,
+        lease_expires_at = CASE WHEN ? THEN NULL ELSE lease_expires_at END
+      WHERE identifier = ? AND lease_owner = ?
+    `);
+    const result = stmt.run(
+      retry.retry_at,
+      retry.retry_attempt,
+      retry.retry_scheduled_for,
+      retry.retry_delay,
+      retry.retry_trigger,
+      now,
+      releaseLease ? 1 : 0,
+      releaseLease ? 1 : 0,
+      identifier,
+      this.workerId
+    );
+    return result.changes > 0;
   }
 
-  /**
-   * Get auto-cleanup configuration and status.
-   * @returns Object containing auto-cleanup settings and current status
-   */
-  public getAutoCleanupStatus(): {
-    enabled: boolean;
-    interval: number;
-    completedJobsRetentionDays: number;
-    cancelledJobsRetentionDays: number;
-    isRunning: boolean;
-  } {
-    return {
-      enabled: this.autoCleanupEnabled,
-      interval: this.autoCleanupInterval,
-      completedJobsRetentionDays: this.completedJobsRetentionDays,
-      cancelledJobsRetentionDays: this.cancelledJobsRetentionDays,
-      isRunning: this.autoCleanupTimer !== null,
-    };
+  protected recordExecution(
+    identifier: string,
+    update: {
+      started: boolean;
+      consecutiveFailures: number;
+      status: CronJob['status'];
+      now: number;
+    },
+    releaseLease: boolean
+  ): void {
+    const stmt = this.db.prepare(/* sql */ `
+      UPDATE cron_jobs
+      SET last_run = CASE WHEN ? THEN ? ELSE last_run END,
+        run_count = run_count + ?, consecutive_failures = ?, status = ?, updated_at = ?,
+        lease_owner = CASE WHEN ? THEN NULL ELSE lease_owner END,
+        lease_expires_at = CASE WHEN ? THEN NULL ELSE lease_expires_at END
+      WHERE identifier = ? AND lease_owner = ?
+    `);
+    stmt.run(
+      update.started ? 1 : 0,
+      update.now,
+      update.started ? 1 : 0,
+      update.consecutiveFailures,
+      update.status,
+      update.now,
+      releaseLease ? 1 : 0,
+      releaseLease ? 1 : 0,
+      identifier,
+      this.workerId
+    );
   }
 
-  /**
-   * Get retry configuration and error handling status.
-   * @returns Object containing retry settings and error handler status
-   */
-  public getRetryConfig(): {
-    maxAttempts: number;
-    baseDelay: number;
-    maxDelay: number;
-    hasErrorHandler: boolean;
-  } {
-    return {
-      maxAttempts: this.maxRetryAttempts,
-      baseDelay: this.retryBaseDelay,
-      maxDelay: this.retryMaxDelay,
-      hasErrorHandler: this.onErrorHandler !== undefined,
-    };
+  protected skipMisfiredRun(
+    identifier: string,
+    nextRun: number,
+    followingRun: number,
+    now: number
+  ): boolean {
+    const stmt = this.db.prepare(/* sql */ `
+      UPDATE cron_jobs SET next_run = ?, updated_at = ?
+      WHERE identifier = ? AND next_run = ? AND (lease_owner IS NULL OR lease_expires_at <= ?)
+    `);
+    const result = stmt.run(followingRun, now, identifier, nextRun, now);
+    return result.changes > 0;
   }
 
-  private scheduleJobExecution(identifier: string, nextRun: number): void {
-    const delay = Math.max(0, nextRun - Date.now());
-
-    const timeout = setTimeout(async () => {
-      await this.executeJob(identifier);
-    }, delay);
-
-    this.activeJobs.set(identifier, timeout);
+  protected completeIdleJob(
+    identifier: string,
+    nextRun: number,
+    now: number
+  ): boolean {
+    const stmt = this.db.prepare(/* sql */ `
+      UPDATE cron_jobs SET status = 'completed', updated_at = ?
+      WHERE identifier = ? AND status = 'active' AND next_run = ?
+        AND (lease_owner IS NULL OR lease_owner = ? OR lease_expires_at <= ?)
+    `);
+    const result = stmt.run(now, identifier, nextRun, this.workerId, now);
+    return result.changes > 0;
   }
 
-  private clearJobExecution(identifier: string): void {
-    const timeout = this.activeJobs.get(identifier);
-    if (timeout) {
-      clearTimeout(timeout);
-      this.activeJobs.delete(identifier);
-    }
+  protected insertRun(run: Omit<CronJobRun, 'id'>): number {
+    const stmt = this.db.prepare(/* sql */ `
+      INSERT INTO cron_job_runs
+      (job_id, identifier, attempt, outcome, scheduled_for, started_at, finished_at, duration, error_message, error_stack)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      run.job_id,
+      run.identifier,
+      run.attempt,
+      run.outcome,
+      run.scheduled_for,
+      run.started_at,
+      run.finished_at,
+      run.duration,
+      run.error_message,
+      run.error_stack
+    );
+    return Number(result.lastInsertRowid);
   }
 
-  private async executeJob(identifier: string): Promise<void> {
-    const handler = this.handlers.get(identifier);
-    if (!handler) {
-      return;
-    }
-
-    let lastError: Error | null = null;
-
-    // Try to execute the job with retries
-    for (let attempt = 1; attempt <= this.maxRetryAttempts; attempt++) {
-      try {
-        await handler();
-        lastError = null;
-        break; // Success, exit retry loop
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-
-        // If this is the last attempt, don't retry
-        if (attempt === this.maxRetryAttempts) {
-          break;
-        }
-
-        // Calculate delay for exponential backoff
-        const delay = Math.min(
-          this.retryBaseDelay * Math.pow(2, attempt - 1),
-          this.retryMaxDelay
-        );
-
-        // Wait before retrying
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
-
-    // If all attempts failed, handle the error
-    if (lastError) {
-      if (this.onErrorHandler) {
-        this.onErrorHandler(identifier, lastError);
-      } else {
-        // Default error handling: log to stdout
-        process.stdout.write(
-          `Job execution failed after ${this.maxRetryAttempts} attempts: ${identifier} - ${lastError.message}\n`
-        );
-      }
-    }
-
-    // Update job status regardless of success/failure
+  protected recordRunEnd(
+    runId: number,
+    outcome: CronJobRunOutcome,
+    error?: Error
+  ): void {
+    const now = this.clock.now();
     const stmt = this.db.prepare(/* sql */ `
-      SELECT cron_expression, specific_time, run_count FROM cron_jobs 
-      WHERE identifier = ? AND status = 'active'
+      UPDATE cron_job_runs
+      SET outcome = ?, finished_at = ?, duration = ? - started_at, error_message = ?, error_stack = ?
+      WHERE id = ?
     `);
-    const job = stmt.get(identifier) as
-      | {
-          cron_expression: string | null;
-          specific_time: number | null;
-          run_count: number;
-        }
-      | undefined;
-
-    if (job) {
-      const now = Date.now();
-      let nextRun: number | null = null;
-      let newStatus = 'active';
-
-      if (job.cron_expression) {
-        nextRun = this.calculateNextRun(job.cron_expression);
-      } else if (job.specific_time) {
-        newStatus = 'completed';
-        nextRun = job.specific_time;
-      }
+    stmt.run(
+      outcome,
+      now,
+      now,
+      error?.message ?? null,
+      error?.stack ?? null,
+      runId
+    );
+  }
 
-      const updateStmt = this.db.prepare(/* sql */ `
-        UPDATE cron_jobs 
-        SET last_run = ?, next_run = ?, run_count = ?, status = ?, updated_at = ?
-        WHERE identifier = ?
-      `);
-      updateStmt.run(
-        now,
-        nextRun,
-        job.run_count + 1,
-        newStatus,
-        now,
-        identifier
-      );
+  protected findRuns(query: RunQuery): CronJobRun[] {
+    const conditions: string[] = [];
+    const params: SQLInputValue[] = [];
 
-      if (
-        job.cron_expression &&
-        nextRun &&
-        nextRun <= Date.now() + this.lookAheadWindow
-      ) {
-        this.scheduleJobExecution(identifier, nextRun);
-      } else {
-        this.activeJobs.delete(identifier);
-      }
+    if (query.identifier !== undefined) {
+      conditions.push('identifier = ?');
+      params.push(query.identifier);
     }
-  }
-
-  private async loadAndScheduleChunk(): Promise<void> {
-    const now = Date.now();
-    const windowEnd = now + this.lookAheadWindow;
 
-    for (const [identifier, timeout] of this.activeJobs) {
-      clearTimeout(timeout);
+    if (query.outcome !== undefined) {
+      conditions.push('outcome = ?');
+      params.push(query.outcome);
     }
-    this.activeJobs.clear();
 
     const stmt = this.db.prepare(/* sql */ `
-      SELECT identifier, next_run 
-      FROM cron_jobs 
-      WHERE status = 'active' 
-        AND next_run <= ? 
-        AND next_run > ?
-      ORDER BY next_run
+      SELECT * FROM cron_job_runs
+      WHERE ${[...conditions, '(? IS NULL OR id < ?)', '(? IS NULL OR started_at >= ?)'].join(' AND ')}
+      ORDER BY id DESC
       LIMIT ?
     `);
 
-    const jobs = stmt.all(windowEnd, now, this.chunkSize) as Array<{
-      identifier: string;
-      next_run: number;
-    }>;
-
-    for (const job of jobs) {
-      if (this.handlers.has(job.identifier)) {
-        this.scheduleJobExecution(job.identifier, job.next_run);
-      }
-    }
+    return stmt.all(
+      ...params,
+      query.before,
+      query.before,
+      query.since,
+      query.since,
+      query.limit
+    ) as unknown as CronJobRun[];
   }
 
-  /**
-   * Start the cron service and begin processing jobs.
-   * This method initializes the database if needed and begins automatic job execution.
-   * Jobs will be loaded and scheduled based on the configured look-ahead window.
-   */
-  public async start(): Promise<void> {
-    if (this.isRunning) return;
-
-    await this.ensureDatabase();
-    this.isRunning = true;
-
-    await this.loadAndScheduleChunk();
-
-    if (!this.refreshTimer) {
-      this.refreshTimer = setInterval(async () => {
-        await this.loadAndScheduleChunk();
-      }, this.refreshInterval);
-    }
-
-    // Start auto-cleanup if enabled
-    this.startAutoCleanup();
+  protected pruneOrphanedRuns(): void {
+    this.db.exec(/* sql */ `
+      DELETE FROM cron_job_runs
+      WHERE identifier NOT IN (SELECT identifier FROM cron_jobs)
+    `);
   }
 
-  /**
-   * Stop the cron service and cease processing jobs.
-   * This method gracefully shuts down the service by clearing all timers
-   * and closing the database connection.
-   */
-  public async stop(): Promise<void> {
-    this.isRunning = false;
-
-    if (this.refreshTimer) {
-      clearInterval(this.refreshTimer);
-      this.refreshTimer = null;
-    }
-
-    // Stop auto-cleanup
-    this.stopAutoCleanup();
-
-    for (const [identifier, timeout] of this.activeJobs) {
-      clearTimeout(timeout);
-    }
-    this.activeJobs.clear();
-
-    if (this.db?.isOpen) {
-      this.db.close();
-    }
+  protected deleteRunsFinishedBefore(time: number): void {
+    const stmt = this.db.prepare(/* sql */ `
+      DELETE FROM cron_job_runs WHERE finished_at IS NOT NULL AND finished_at < ?
+    `);
+    stmt.run(time);
   }
 }
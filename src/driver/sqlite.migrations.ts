@@ -0,0 +1,366 @@
+import type { DatabaseSync } from 'node:sqlite';
+
+/**
+ * A versioned change to the SQLite schema.
+ * Migrations run in order of their version, and each version runs only once
+ * per database file.
+ */
+export interface SqliteMigration {
+  /** Schema version reached once the migration is applied, starting at 1 */
+  version: number;
+  /** Short description of the change */
+  description: string;
+  /** Apply the change to the database */
+  up(db: DatabaseSync): void;
+}
+
+/**
+ * Add a column unless the table already has it.
+ * Databases created by development builds before migrations existed may
+ * already contain some of the columns a migration adds.
+ */
+function addColumn(
+  db: DatabaseSync,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const columns = db
+    .prepare(/* sql */ `SELECT name FROM pragma_table_info(?)`)
+    .all(table) as { name: string }[];
+
+  if (columns.some((existing) => existing.name === column)) return;
+
+  db.exec(/* sql */ `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+const CRON_JOB_INDEXES = /* sql */ `
+  CREATE INDEX IF NOT EXISTS idx_cron_jobs_status_next_run
+  ON cron_jobs(status, next_run);
+
+  CREATE INDEX IF NOT EXISTS idx_cron_jobs_identifier
+  ON cron_jobs(identifier);
+
+  CREATE INDEX IF NOT EXISTS idx_cron_jobs_run_count
+  ON cron_jobs(run_count);
+
+  CREATE INDEX IF NOT EXISTS idx_cron_jobs_next_run
+  ON cron_jobs(next_run, identifier);
+
+  CREATE INDEX IF NOT EXISTS idx_cron_jobs_created_at
+  ON cron_jobs(created_at, identifier);
+
+  CREATE INDEX IF NOT EXISTS idx_cron_jobs_retry_at
+  ON cron_jobs(retry_at) WHERE retry_at IS NOT NULL;
+`;
+
+/**
+ * All schema migrations, in order.
+ * Append new migrations to the end; never change one that has been released.
+ */
+export const migrations: SqliteMigration[] = [
+  {
+    version: 1,
+    description: 'Create the jobs table',
+    up(db) {
+      db.exec(/* sql */ `
+        CREATE TABLE IF NOT EXISTS cron_jobs (
+          id TEXT PRIMARY KEY,
+          cron_expression TEXT,
+          specific_time INTEGER,
+          identifier TEXT UNIQUE NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('active', 'paused', 'cancelled', 'completed')),
+          next_run INTEGER NOT NULL,
+          last_run INTEGER,
+          run_count INTEGER NOT NULL DEFAULT 0,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          CONSTRAINT check_schedule_type CHECK (
+            (cron_expression IS NOT NULL AND specific_time IS NULL) OR
+            (cron_expression IS NULL AND specific_time IS NOT NULL)
+          )
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_cron_jobs_status_next_run
+        ON cron_jobs(status, next_run);
+
+        CREATE INDEX IF NOT EXISTS idx_cron_jobs_identifier
+        ON cron_jobs(identifier);
+
+        CREATE INDEX IF NOT EXISTS idx_cron_jobs_run_count
+        ON cron_jobs(run_count);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description:
+      'Add handler names, payloads, time zones, leases, misfire, concurrency, overlap, tags, timeout and retry columns',
+    up(db) {
+      addColumn(db, 'cron_jobs', 'timezone', 'TEXT');
+      addColumn(db, 'cron_jobs', 'handler_name', 'TEXT');
+      addColumn(db, 'cron_jobs', 'payload', 'TEXT');
+      addColumn(
+        db,
+        'cron_jobs',
+        'misfire_policy',
+        `TEXT CHECK (misfire_policy IN ('fire-once', 'fire-all', 'skip'))`
+      );
+      addColumn(db, 'cron_jobs', 'misfire_grace_time', 'INTEGER');
+      addColumn(db, 'cron_jobs', 'group_name', 'TEXT');
+      addColumn(db, 'cron_jobs', 'max_concurrency', 'INTEGER');
+      addColumn(
+        db,
+        'cron_jobs',
+        'overlap',
+        `TEXT NOT NULL DEFAULT 'skip' CHECK (overlap IN ('allow', 'skip', 'queue', 'cancel-previous'))`
+      );
+      addColumn(db, 'cron_jobs', 'tags', `TEXT NOT NULL DEFAULT '[]'`);
+      addColumn(db, 'cron_jobs', 'timeout', 'INTEGER');
+      addColumn(db, 'cron_jobs', 'retry_policy', 'TEXT');
+      addColumn(db, 'cron_jobs', 'retry_at', 'INTEGER');
+      addColumn(db, 'cron_jobs', 'retry_attempt', 'INTEGER');
+      addColumn(db, 'cron_jobs', 'retry_scheduled_for', 'INTEGER');
+      addColumn(db, 'cron_jobs', 'retry_delay', 'INTEGER');
+      addColumn(db, 'cron_jobs', 'lease_owner', 'TEXT');
+      addColumn(db, 'cron_jobs', 'lease_expires_at', 'INTEGER');
+
+      db.exec(CRON_JOB_INDEXES);
+    },
+  },
+  {
+    version: 3,
+    description: 'Create the run history table',
+    up(db) {
+      db.exec(/* sql */ `
+        CREATE TABLE IF NOT EXISTS cron_job_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id TEXT NOT NULL,
+          identifier TEXT NOT NULL,
+          attempt INTEGER NOT NULL,
+          outcome TEXT NOT NULL,
+          scheduled_for INTEGER,
+          started_at INTEGER NOT NULL,
+          finished_at INTEGER,
+          duration INTEGER,
+          error_message TEXT,
+          error_stack TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_cron_job_runs_identifier
+        ON cron_job_runs(identifier, id);
+
+        CREATE INDEX IF NOT EXISTS idx_cron_job_runs_outcome
+        ON cron_job_runs(outcome, id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Add the failed status and consecutive failure tracking',
+    up(db) {
+      addColumn(
+        db,
+        'cron_jobs',
+        'consecutive_failures',
+        'INTEGER NOT NULL DEFAULT 0'
+      );
+      addColumn(db, 'cron_jobs', 'max_consecutive_failures', 'INTEGER');
+
+      // SQLite cannot alter a CHECK constraint, so the table is rebuilt
+      db.exec(/* sql */ `
+        CREATE TABLE cron_jobs_new (
+          id TEXT PRIMARY KEY,
+          cron_expression TEXT,
+          specific_time INTEGER,
+          timezone TEXT,
+          identifier TEXT UNIQUE NOT NULL,
+          handler_name TEXT,
+          payload TEXT,
+          status TEXT NOT NULL CHECK (status IN ('active', 'paused', 'cancelled', 'completed', 'failed')),
+          next_run INTEGER NOT NULL,
+          last_run INTEGER,
+          run_count INTEGER NOT NULL DEFAULT 0,
+          consecutive_failures INTEGER NOT NULL DEFAULT 0,
+          max_consecutive_failures INTEGER,
+          misfire_policy TEXT CHECK (misfire_policy IN ('fire-once', 'fire-all', 'skip')),
+          misfire_grace_time INTEGER,
+          group_name TEXT,
+          max_concurrency INTEGER,
+          overlap TEXT NOT NULL DEFAULT 'skip' CHECK (overlap IN ('allow', 'skip', 'queue', 'cancel-previous')),
+          tags TEXT NOT NULL DEFAULT '[]',
+          timeout INTEGER,
+          retry_policy TEXT,
+          retry_at INTEGER,
+          retry_attempt INTEGER,
+          retry_scheduled_for INTEGER,
+          retry_delay INTEGER,
+          lease_owner TEXT,
+          lease_expires_at INTEGER,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          CONSTRAINT check_schedule_type CHECK (
+            (cron_expression IS NOT NULL AND specific_time IS NULL) OR
+            (cron_expression IS NULL AND specific_time IS NOT NULL)
+          )
+        );
+
+        INSERT INTO cron_jobs_new (
+          id, cron_expression, specific_time, timezone, identifier, handler_name, payload,
+          status, next_run, last_run, run_count, consecutive_failures, max_consecutive_failures,
+          misfire_policy, misfire_grace_time, group_name, max_concurrency, overlap, tags,
+          timeout, retry_policy, retry_at, retry_attempt, retry_scheduled_for, retry_delay,
+          lease_owner, lease_expires_at, created_at, updated_at
+        )
+        SELECT
+          id, cron_expression, specific_time, timezone, identifier, handler_name, payload,
+          status, next_run, last_run, run_count, consecutive_failures, max_consecutive_failures,
+          misfire_policy, misfire_grace_time, group_name, max_concurrency, overlap, tags,
+          timeout, retry_policy, retry_at, retry_attempt, retry_scheduled_for, retry_delay,
+          lease_owner, lease_expires_at, created_at, updated_at
+        FROM cron_jobs;
+
+        DROP TABLE cron_jobs;
+        ALTER TABLE cron_jobs_new RENAME TO cron_jobs;
+      `);
+
+      db.exec(CRON_JOB_INDEXES);
+    },
+  },
+  {
+    version: 5,
+    description: 'Keep manual runs apart when retrying them',
+    up(db) {
+      addColumn(db, 'cron_jobs', 'retry_trigger', 'TEXT');
+    },
+  },
+  {
+    version: 6,
+    description: 'Add start, end and maximum run bounds of recurring jobs',
+    up(db) {
+      addColumn(db, 'cron_jobs', 'start_at', 'INTEGER');
+      addColumn(db, 'cron_jobs', 'end_at', 'INTEGER');
+      addColumn(db, 'cron_jobs', 'max_runs', 'INTEGER');
+    },
+  },
+  {
+    version: 7,
+    description: 'Add interval schedules and the schedule type',
+    up(db) {
+      // SQLite cannot alter a CHECK constraint, so the table is rebuilt
+      db.exec(/* sql */ `
+        CREATE TABLE cron_jobs_new (
+          id TEXT PRIMARY KEY,
+          schedule_type TEXT NOT NULL CHECK (schedule_type IN ('cron', 'once', 'interval')),
+          cron_expression TEXT,
+          specific_time INTEGER,
+          interval INTEGER,
+          interval_anchor INTEGER,
+          timezone TEXT,
+          identifier TEXT UNIQUE NOT NULL,
+          handler_name TEXT,
+          payload TEXT,
+          status TEXT NOT NULL CHECK (status IN ('active', 'paused', 'cancelled', 'completed', 'failed')),
+          next_run INTEGER NOT NULL,
+          last_run INTEGER,
+          run_count INTEGER NOT NULL DEFAULT 0,
+          consecutive_failures INTEGER NOT NULL DEFAULT 0,
+          max_consecutive_failures INTEGER,
+          start_at INTEGER,
+          end_at INTEGER,
+          max_runs INTEGER,
+          misfire_policy TEXT CHECK (misfire_policy IN ('fire-once', 'fire-all', 'skip')),
+          misfire_grace_time INTEGER,
+          group_name TEXT,
+          max_concurrency INTEGER,
+          overlap TEXT NOT NULL DEFAULT 'skip' CHECK (overlap IN ('allow', 'skip', 'queue', 'cancel-previous')),
+          tags TEXT NOT NULL DEFAULT '[]',
+          timeout INTEGER,
+          retry_policy TEXT,
+          retry_at INTEGER,
+          retry_attempt INTEGER,
+          retry_scheduled_for INTEGER,
+          retry_delay INTEGER,
+          retry_trigger TEXT,
+          lease_owner TEXT,
+          lease_expires_at INTEGER,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          CONSTRAINT check_schedule_type CHECK (
+            (schedule_type = 'cron' AND cron_expression IS NOT NULL AND specific_time IS NULL AND interval IS NULL) OR
+            (schedule_type = 'once' AND cron_expression IS NULL AND specific_time IS NOT NULL AND interval IS NULL) OR
+            (schedule_type = 'interval' AND cron_expression IS NULL AND specific_time IS NULL AND interval IS NOT NULL AND interval_anchor IS NOT NULL)
+          )
+        );
+
+        INSERT INTO cron_jobs_new (
+          id, schedule_type, cron_expression, specific_time, timezone, identifier, handler_name, payload,
+          status, next_run, last_run, run_count, consecutive_failures, max_consecutive_failures,
+          start_at, end_at, max_runs, misfire_policy, misfire_grace_time, group_name, max_concurrency,
+          overlap, tags, timeout, retry_policy, retry_at, retry_attempt, retry_scheduled_for, retry_delay,
+          retry_trigger, lease_owner, lease_expires_at, created_at, updated_at
+        )
+        SELECT
+          id, CASE WHEN cron_expression IS NOT NULL THEN 'cron' ELSE 'once' END,
+          cron_expression, specific_time, timezone, identifier, handler_name, payload,
+          status, next_run, last_run, run_count, consecutive_failures, max_consecutive_failures,
+          start_at, end_at, max_runs, misfire_policy, misfire_grace_time, group_name, max_concurrency,
+          overlap, tags, timeout, retry_policy, retry_at, retry_attempt, retry_scheduled_for, retry_delay,
+          retry_trigger, lease_owner, lease_expires_at, created_at, updated_at
+        FROM cron_jobs;
+
+        DROP TABLE cron_jobs;
+        ALTER TABLE cron_jobs_new RENAME TO cron_jobs;
+      `);
+
+      db.exec(CRON_JOB_INDEXES);
+    },
+  },
+];
+
+/**
+ * Get the schema version of the database.
+ */
+export function getSchemaVersion(db: DatabaseSync): number {
+  const row = db.prepare(/* sql */ `PRAGMA user_version`).get() as {
+    user_version: number;
+  };
+  return row.user_version;
+}
+
+/**
+ * Bring the database schema up to date.
+ * Pending migrations run in a single transaction, so a failing migration
+ * leaves the database at its previous version. The write lock is taken
+ * before the version is read, so workers starting at the same time on a
+ * shared database apply each migration only once.
+ *
+ * @param db - Open database connection
+ * @returns Schema version before and after migrating
+ */
+export function migrate(db: DatabaseSync): { from: number; to: number } {
+  const latest = migrations[migrations.length - 1].version;
+
+  db.exec(/* sql */ `BEGIN IMMEDIATE`);
+  try {
+    const from = getSchemaVersion(db);
+
+    if (from > latest) {
+      throw new Error(
+        `Database schema version ${from} is newer than the latest supported version ${latest}`
+      );
+    }
+
+    for (const migration of migrations) {
+      if (migration.version <= from) continue;
+      migration.up(db);
+      db.exec(/* sql */ `PRAGMA user_version = ${migration.version}`);
+    }
+
+    db.exec(/* sql */ `COMMIT`);
+    return { from, to: latest };
+  } catch (error) {
+    db.exec(/* sql */ `ROLLBACK`);
+    throw error;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Error raised when a job handler does not finish within its timeout.
+ * Timed-out attempts are retried like any other failed attempt.
+ */
+export class JobTimeoutError extends Error {
+  public name = 'JobTimeoutError';
+
+  /**
+   * Create a new timeout error.
+   * @param identifier - Unique identifier of the job that timed out
+   * @param timeout - Timeout in milliseconds that was exceeded
+   */
+  public constructor(
+    public readonly identifier: string,
+    public readonly timeout: number
+  ) {
+    super(`Job ${identifier} timed out after ${timeout}ms`);
+  }
+}
+
+/**
+ * Error raised when scheduling a job under an identifier that is already taken
+ * with the `error` conflict policy.
+ */
+export class JobExistsError extends Error {
+  public name = 'JobExistsError';
+
+  /**
+   * Create a new job exists error.
+   * @param identifier - Unique identifier of the existing job
+   */
+  public constructor(public readonly identifier: string) {
+    super(`Job ${identifier} already exists`);
+  }
+}
+
+/**
+ * Error that fails a job attempt without retrying it.
+ * Throw it from a handler when retrying cannot succeed, e.g. on invalid input.
+ */
+export class NonRetryableError extends Error {
+  public name = 'NonRetryableError';
+}
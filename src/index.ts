@@ -1,9 +1,49 @@
-export { CronService, cancel, cronService, schedule } from './cron';
+export { CronService, cancel, cronService, define, schedule } from './cron';
+export { VirtualClock, systemClock } from './clock';
+export { runDriverConformance } from './driver/conformance';
+export { MemoryDriver } from './driver/memory.driver';
 export { SqliteDriver } from './driver/sqlite.driver';
+export { JobExistsError, JobTimeoutError, NonRetryableError } from './errors';
+export { createTestScheduler } from './testing';
+export type {
+  DriverConformanceConfig,
+  DriverConformanceReport,
+  DriverConformanceResult,
+  DriverFactory,
+} from './driver/conformance';
 export type { Driver } from './driver/driver';
+export type { MemoryDriverConfig } from './driver/memory.driver';
+export type { QueueStats } from './driver/execution-queue';
+export type { TestScheduler, TestSchedulerOptions } from './testing';
 export type {
+  Clock,
+  ClockTimer,
+  ConflictPolicy,
   CronJob,
+  CronJobRun,
+  CronJobRunOutcome,
   CronServiceConfig,
+  CronEventEmitter,
+  CronEventMap,
   CronHandler,
+  CronHandlerContext,
+  IntervalSchedule,
+  JobListOptions,
+  JobListPage,
+  MisfirePolicy,
+  OverlapPolicy,
+  PreviewOptions,
+  RescheduleOptions,
+  RetryConfig,
+  RetryPolicy,
+  RetryStrategy,
+  RunHistoryOptions,
   ScheduleInput,
+  ScheduleOptions,
+  ScheduleType,
+  ShutdownHookOptions,
+  StopOptions,
+  TriggerOptions,
+  UpcomingOptions,
+  UpcomingRun,
 } from './types';
@@ -0,0 +1,54 @@
+import type { RetryStrategy } from './types';
+
+/**
+ * Parameters of the delay between two attempts.
+ */
+export interface RetryDelayOptions {
+  /** How the delay grows */
+  strategy: RetryStrategy;
+  /** Base delay in milliseconds */
+  baseDelay: number;
+  /** Maximum delay in milliseconds */
+  maxDelay: number;
+}
+
+/**
+ * Compute how long to wait before the next attempt.
+ * @param options - Strategy and delay bounds
+ * @param attempt - Number of the attempt that just failed, starting at 1
+ * @param previousDelay - Delay before the attempt that just failed (null for the first attempt)
+ * @param random - Source of random numbers in [0, 1) for the jitter strategies (default: Math.random)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  options: RetryDelayOptions,
+  attempt: number,
+  previousDelay: number | null,
+  random: () => number = Math.random
+): number {
+  const { baseDelay, maxDelay } = options;
+  const exponential = baseDelay * Math.pow(2, attempt - 1);
+
+  let delay: number;
+  switch (options.strategy) {
+    case 'fixed':
+      delay = baseDelay;
+      break;
+    case 'linear':
+      delay = baseDelay * attempt;
+      break;
+    case 'exponential':
+      delay = exponential;
+      break;
+    case 'full-jitter':
+      delay = random() * Math.min(exponential, maxDelay);
+      break;
+    case 'decorrelated-jitter': {
+      const upper = Math.max(baseDelay, (previousDelay ?? baseDelay) * 3);
+      delay = baseDelay + random() * (upper - baseDelay);
+      break;
+    }
+  }
+
+  return Math.round(Math.min(delay, maxDelay));
+}
@@ -0,0 +1,173 @@
+import { CronExpressionParser } from 'cron-parser';
+
+/**
+ * Options for computing cron occurrences.
+ */
+export interface CronOccurrenceOptions {
+  /** Compute the first occurrence strictly after this timestamp (default: now) */
+  from?: number;
+  /** IANA time zone the expression is evaluated in (default: server local zone) */
+  timezone?: string | null;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is a valid IANA time zone name.
+ * @param timezone - Time zone name, e.g. 'Europe/Berlin'
+ * @returns True if the time zone is known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the UTC offset of a time zone at a given instant.
+ * @returns Offset in milliseconds (local time minus UTC)
+ */
+function getZoneOffset(time: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(time))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  const local = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return local - (time - (time % 1000));
+}
+
+/**
+ * Check whether an instant is the second occurrence of a local wall-clock time,
+ * i.e. it falls into the hour repeated when clocks are set back.
+ */
+function isRepeatedWallTime(time: number, timezone: string): boolean {
+  // Offset changes are at most a few hours apart, so 6 hours back is safely
+  // before any transition that can make `time` a repeated wall time
+  const offsetBefore = getZoneOffset(time - 6 * 60 * 60 * 1000, timezone);
+  const shift = offsetBefore - getZoneOffset(time, timezone);
+  if (shift <= 0) return false;
+
+  // The same wall time shows up `shift` earlier if that instant still used the old offset
+  return getZoneOffset(time - shift, timezone) === offsetBefore;
+}
+
+/**
+ * Compute the next occurrence of a cron expression.
+ *
+ * Daylight saving time transitions are handled as follows:
+ * - Occurrences in the hour skipped when clocks spring forward are shifted
+ *   forward by the length of the gap (e.g. 02:30 runs at 03:30).
+ * - When clocks fall back, expressions restricted to specific hours run only
+ *   during the first pass of the repeated hour, while expressions that run
+ *   every hour run in both passes, keeping their elapsed-time spacing.
+ *
+ * @param expression - Cron expression to evaluate
+ * @param options - Reference time and time zone
+ * @returns Timestamp in milliseconds of the next occurrence
+ */
+export function getNextCronRun(
+  expression: string,
+  options: CronOccurrenceOptions = {}
+): number {
+  const timezone = options.timezone ?? undefined;
+  const interval = CronExpressionParser.parse(expression, {
+    currentDate: options.from,
+    tz: timezone,
+  });
+
+  const everyHour = interval.fields.hour.values.length === 24;
+  let next = interval.next().getTime();
+
+  if (!everyHour) {
+    const zone = timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+    while (isRepeatedWallTime(next, zone)) {
+      next = interval.next().getTime();
+    }
+  }
+
+  return next;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse the interval of an interval schedule.
+ * @param every - Interval in milliseconds, or a duration made of one or more
+ * amounts with a unit (ms, s, m, h, d or w), e.g. '90s', '36h' or '1h30m'
+ * @returns Interval in milliseconds
+ */
+export function parseInterval(every: number | string): number {
+  let interval = typeof every === 'number' ? every : NaN;
+
+  if (
+    typeof every === 'string' &&
+    /^(\d+(\.\d+)?(ms|s|m|h|d|w))+$/.test(every)
+  ) {
+    interval = 0;
+    for (const [, amount, , unit] of every.matchAll(
+      /(\d+(\.\d+)?)(ms|s|m|h|d|w)/g
+    )) {
+      interval += Number(amount) * DURATION_UNITS[unit];
+    }
+  }
+
+  if (!(Number.isInteger(interval) && interval > 0)) {
+    throw new Error(`Invalid interval: ${every}`);
+  }
+  return interval;
+}
+
+/**
+ * Compute the next run of an interval schedule.
+ * Runs are counted from the anchor rather than from the previous run, so
+ * they stay at `anchor + n * interval` however late each run starts.
+ *
+ * @param interval - Time between runs in milliseconds
+ * @param anchor - Timestamp in milliseconds the intervals are counted from
+ * @param from - Compute the first run strictly after this timestamp
+ * @returns Timestamp in milliseconds of the next run
+ */
+export function getNextIntervalRun(
+  interval: number,
+  anchor: number,
+  from: number
+): number {
+  if (from < anchor) return anchor;
+  return anchor + (Math.floor((from - anchor) / interval) + 1) * interval;
+}
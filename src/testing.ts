@@ -0,0 +1,79 @@
+import type { MemoryDriverConfig } from './driver/memory.driver';
+import { VirtualClock } from './clock';
+import { CronService } from './cron';
+import { MemoryDriver } from './driver/memory.driver';
+
+/**
+ * Options for creating a test scheduler.
+ */
+export interface TestSchedulerOptions {
+  /** Initial time of the virtual clock (default: the current system time) */
+  now?: number | Date;
+  /** Driver configuration; the clock is provided by the scheduler */
+  config?: Omit<MemoryDriverConfig, 'clock'>;
+}
+
+/**
+ * A running cron service on an in-memory driver whose time is controlled by a
+ * virtual clock.
+ */
+export interface TestScheduler {
+  /** Started service to schedule jobs on */
+  service: CronService;
+  /** In-memory driver backing the service */
+  driver: MemoryDriver;
+  /** Virtual clock used by the driver */
+  clock: VirtualClock;
+  /** Current virtual time in milliseconds */
+  now(): number;
+  /** Move time forward by `ms` milliseconds, running every job due in that period */
+  advanceBy(ms: number): Promise<void>;
+  /** Move time forward to `time`, running every job due until then */
+  advanceTo(time: number | Date): Promise<void>;
+}
+
+/**
+ * Create a started cron service that runs on virtual time, for testing code
+ * that schedules jobs without waiting in real time.
+ *
+ * Jobs run when the clock is advanced past their scheduled time, in order of
+ * that time, and their handlers and retries have finished by the time
+ * `advanceBy()` or `advanceTo()` resolves, unless they wait for real I/O.
+ * Handler timeouts and retry delays are measured on the virtual clock too.
+ *
+ * @param options - Initial time and driver configuration
+ * @returns Promise resolving to the test scheduler
+ *
+ * @example
+ * ```typescript
+ * const scheduler = await createTestScheduler({
+ *   now: new Date('2030-01-01T00:00:00Z'),
+ * });
+ * const runs: number[] = [];
+ * await scheduler.service.schedule('0 * * * *', 'hourly', () => {
+ *   runs.push(scheduler.now());
+ * });
+ *
+ * await scheduler.advanceBy(3 * 60 * 60 * 1000);
+ * expect(runs).toHaveLength(3);
+ * await scheduler.service.stop();
+ * ```
+ */
+export async function createTestScheduler(
+  options: TestSchedulerOptions = {}
+): Promise<TestScheduler> {
+  const clock = new VirtualClock(options.now);
+  const driver = new MemoryDriver({ ...options.config, clock });
+  const service = new CronService(driver);
+
+  await service.start();
+
+  return {
+    service,
+    driver,
+    clock,
+    now: () => clock.now(),
+    advanceBy: (ms) => clock.advanceBy(ms),
+    advanceTo: (time) => clock.advanceTo(time),
+  };
+}
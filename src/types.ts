@@ -1,29 +1,196 @@
+import type { EventEmitter } from 'node:events';
+
 /**
  * Represents a cron job with comprehensive metadata and execution information.
  */
-export interface CronJob {
+export interface CronJob<T = unknown> {
   /** Unique identifier for the job */
   id: string;
-  /** Cron expression for recurring jobs (null for one-time jobs) */
+  /** How the job's runs are scheduled */
+  schedule_type: ScheduleType;
+  /** Cron expression of `cron` jobs (null for other schedule types) */
   cron_expression: string | null;
-  /** Specific timestamp for one-time jobs (null for recurring jobs) */
+  /** Specific timestamp of `once` jobs (null for other schedule types) */
   specific_time: number | null;
+  /** Time between runs in milliseconds of `interval` jobs (null for other schedule types) */
+  interval: number | null;
+  /** Timestamp in milliseconds the intervals of `interval` jobs are counted from (null for other schedule types) */
+  interval_anchor: number | null;
+  /** IANA time zone of the cron expression (null to use the service default) */
+  timezone: string | null;
   /** Human-readable identifier for the job */
   identifier: string;
-  /** Current status of the job */
-  status: 'active' | 'paused' | 'cancelled' | 'completed';
+  /** Name of the registered handler (null for inline handlers) */
+  handler_name: string | null;
+  /** JSON payload passed to the handler (undefined if none was provided) */
+  payload: T | undefined;
+  /** Current status of the job (`failed` one-time jobs are dead-lettered until requeued) */
+  status: 'active' | 'paused' | 'cancelled' | 'completed' | 'failed';
   /** Next scheduled execution time in milliseconds */
   next_run: number;
   /** Last execution time in milliseconds (null if never executed) */
   last_run: number | null;
   /** Number of times the job has been executed */
   run_count: number;
+  /** Number of occurrences in a row that failed all their attempts */
+  consecutive_failures: number;
+  /** Consecutive failures after which the recurring job is paused (null to use the service default) */
+  max_consecutive_failures: number | null;
+  /** Earliest time in milliseconds the recurring job runs at (null if unbounded) */
+  start_at: number | null;
+  /** Latest time in milliseconds the recurring job runs at (null if unbounded) */
+  end_at: number | null;
+  /** Number of runs after which the recurring job completes (null for unlimited) */
+  max_runs: number | null;
+  /** Misfire policy override for this job (null to use the service default) */
+  misfire_policy: MisfirePolicy | null;
+  /** Misfire grace time override in milliseconds, used by the `skip` policy (null to use the service default) */
+  misfire_grace_time: number | null;
+  /** Concurrency group of the job (null if none) */
+  group_name: string | null;
+  /** Maximum simultaneous executions of the job (null for unlimited) */
+  max_concurrency: number | null;
+  /** What happens when an occurrence is due while a previous one is still running */
+  overlap: OverlapPolicy;
+  /** Tags attached to the job for filtering */
+  tags: string[];
+  /** Timeout in milliseconds of each execution attempt (null to use the service default) */
+  timeout: number | null;
+  /** Retry policy overrides of the job as JSON-compatible object (null to use the service defaults) */
+  retry_policy: Omit<RetryPolicy, 'retryIf'> | null;
+  /** Timestamp in milliseconds the pending retry of a failed occurrence is due (null if none) */
+  retry_at: number | null;
+  /** Attempt number of the pending retry */
+  retry_attempt: number | null;
+  /** Timestamp in milliseconds of the occurrence the pending retry belongs to */
+  retry_scheduled_for: number | null;
+  /** ID of the worker currently running the job (null if not running) */
+  lease_owner: string | null;
+  /** Expiry timestamp of the current lease in milliseconds */
+  lease_expires_at: number | null;
   /** Creation timestamp in milliseconds */
   created_at: number;
   /** Last update timestamp in milliseconds */
   updated_at: number;
 }
 
+/**
+ * Outcome of a single job execution attempt.
+ * `skipped` occurrences never ran because of the job's overlap policy, and
+ * `cancelled` attempts were aborted while running.
+ */
+export type CronJobRunOutcome =
+  'running' | 'success' | 'failure' | 'skipped' | 'cancelled';
+
+/**
+ * Represents a single execution attempt of a job, as recorded in the run history.
+ */
+export interface CronJobRun {
+  /** Auto-incrementing run identifier, usable as a paging cursor */
+  id: number;
+  /** ID of the job at the time of the run */
+  job_id: string;
+  /** Identifier of the job */
+  identifier: string;
+  /** Attempt number within the execution, starting at 1 */
+  attempt: number;
+  /** Outcome of the attempt ('running' while the handler is in flight) */
+  outcome: CronJobRunOutcome;
+  /** Time in milliseconds the execution was scheduled for */
+  scheduled_for: number | null;
+  /** Start timestamp in milliseconds */
+  started_at: number;
+  /** End timestamp in milliseconds (null while running) */
+  finished_at: number | null;
+  /** Duration of the attempt in milliseconds (null while running) */
+  duration: number | null;
+  /** Error message of a failed attempt */
+  error_message: string | null;
+  /** Error stack of a failed attempt */
+  error_stack: string | null;
+}
+
+/**
+ * Options for paging through run history.
+ */
+export interface RunHistoryOptions {
+  /** Maximum number of runs to return (default: 50) */
+  limit?: number;
+  /** Only return runs with an id lower than this, for fetching the next page */
+  before?: number;
+  /** Only return runs started at or after this timestamp in milliseconds */
+  since?: number;
+}
+
+/**
+ * Options for previewing the upcoming occurrences of a schedule or job.
+ */
+export interface PreviewOptions {
+  /** Maximum number of occurrences to return (default: 10) */
+  count?: number;
+  /** Only return occurrences at or after this time (default: now) */
+  from?: number | Date;
+  /** Only return occurrences at or before this time (default: no limit) */
+  until?: number | Date;
+  /** IANA time zone of a previewed cron expression (default: the service time zone); jobs use their own */
+  timezone?: string;
+}
+
+/**
+ * Options for listing the upcoming runs of all active jobs.
+ */
+export interface UpcomingOptions {
+  /** Only return runs at or before this time */
+  until: number | Date;
+  /** Only return runs at or after this time (default: now) */
+  from?: number | Date;
+  /** Maximum number of runs to return (default: 100) */
+  limit?: number;
+}
+
+/**
+ * A single upcoming run of a job.
+ */
+export interface UpcomingRun {
+  /** Unique identifier of the job */
+  identifier: string;
+  /** Timestamp in milliseconds the run is scheduled for */
+  scheduledFor: number;
+}
+
+/**
+ * Options for listing jobs.
+ * All filters are optional and combined with AND.
+ */
+export interface JobListOptions {
+  /** Only return jobs with this status, or any of these statuses */
+  status?: CronJob['status'] | CronJob['status'][];
+  /** Only return jobs whose identifier starts with this prefix */
+  identifierPrefix?: string;
+  /** Only return jobs that have all of these tags */
+  tags?: string[];
+  /** Only return jobs whose next run is before this timestamp in milliseconds */
+  nextRunBefore?: number;
+  /** Only return jobs whose next run is after this timestamp in milliseconds */
+  nextRunAfter?: number;
+  /** Field the jobs are sorted by in ascending order (default: 'identifier') */
+  orderBy?: 'identifier' | 'next_run' | 'created_at';
+  /** Maximum number of jobs to return (default: 50) */
+  limit?: number;
+  /** Cursor returned with the previous page, for fetching the next page */
+  cursor?: string;
+}
+
+/**
+ * A page of jobs returned by a listing.
+ */
+export interface JobListPage<T = unknown> {
+  /** Jobs on this page */
+  jobs: CronJob<T>[];
+  /** Cursor for fetching the next page (null if this is the last page) */
+  nextCursor: string | null;
+}
+
 /**
  * Configuration options for the cron service.
  */
@@ -36,6 +203,20 @@ export interface CronServiceConfig {
   refreshInterval?: number;
   /** Look-ahead window in milliseconds for job scheduling (default: 25 hours) */
   lookAheadWindow?: number;
+  /** Default IANA time zone for cron expressions (default: server local zone) */
+  timezone?: string;
+  /** Unique ID of this worker when several processes share the database (default: random UUID) */
+  workerId?: string;
+  /** Duration in milliseconds of the lease a worker holds on a running job (default: 60000) */
+  leaseDuration?: number;
+  /** Default timeout in milliseconds of each execution attempt (default: none) */
+  timeout?: number;
+  /** Consecutive failed occurrences after which a recurring job is paused (default: never) */
+  maxConsecutiveFailures?: number;
+  /** Maximum number of jobs executing at the same time in this process (default: unlimited) */
+  concurrency?: number;
+  /** Maximum number of jobs of each group executing at the same time, keyed by group name */
+  groupConcurrency?: Record<string, number>;
   /** Auto-cleanup configuration for automatic job cleanup */
   autoCleanup?: {
     /** Enable automatic cleanup (default: true) */
@@ -46,28 +227,314 @@ export interface CronServiceConfig {
     completedJobsRetentionDays?: number;
     /** Remove cancelled jobs older than this many days (default: 30) */
     cancelledJobsRetentionDays?: number;
+    /** Remove run history entries older than this many days (default: 30) */
+    runHistoryRetentionDays?: number;
   };
   /** Job retry configuration for failed executions */
   retry?: {
     /** Maximum number of retry attempts (default: 3) */
     maxAttempts?: number;
+    /** How the delay between attempts grows (default: 'exponential') */
+    strategy?: RetryStrategy;
     /** Base delay in milliseconds for exponential backoff (default: 1000) */
     baseDelay?: number;
     /** Maximum delay in milliseconds (default: 30000) */
     maxDelay?: number;
+    /** Decide whether a failed attempt is retried (default: retry every error except NonRetryableError) */
+    retryIf?: (error: Error) => boolean;
+  };
+  /** Handling of occurrences missed while the service was not running */
+  misfire?: {
+    /** Policy applied to missed occurrences (default: 'fire-once') */
+    policy?: MisfirePolicy;
+    /** Lateness in milliseconds up to which an occurrence still runs under the `skip` policy; `fire-once` and `fire-all` run late occurrences regardless (default: 60000) */
+    graceTime?: number;
   };
   /** Error handling configuration */
   onError?: (jobId: string, error: Error) => void;
+  /** Source of the current time and timers (default: the system clock) */
+  clock?: Clock;
+}
+
+/**
+ * Handle of a timer created by a clock.
+ */
+export type ClockTimer = object;
+
+/**
+ * Source of the current time and timers used by the driver.
+ * Replace the system clock with a virtual one to control time in tests.
+ */
+export interface Clock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+  /** Call `callback` once after `delay` milliseconds */
+  setTimeout(callback: () => unknown, delay: number): ClockTimer;
+  /** Cancel a timer created with `setTimeout` */
+  clearTimeout(timer: ClockTimer): void;
+  /** Call `callback` every `interval` milliseconds */
+  setInterval(callback: () => unknown, interval: number): ClockTimer;
+  /** Cancel a timer created with `setInterval` */
+  clearInterval(timer: ClockTimer): void;
+}
+
+/**
+ * How the delay between attempts grows.
+ * - `fixed`: always wait `baseDelay`
+ * - `linear`: wait `baseDelay` times the attempt number
+ * - `exponential`: double the delay after every attempt
+ * - `full-jitter`: wait a random delay between 0 and the exponential delay
+ * - `decorrelated-jitter`: wait a random delay between `baseDelay` and three times the previous delay
+ *
+ * Delays never exceed `maxDelay`.
+ */
+export type RetryStrategy =
+  'fixed' | 'linear' | 'exponential' | 'full-jitter' | 'decorrelated-jitter';
+
+/**
+ * Retry policy of a single job, overriding the service defaults.
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts */
+  maxAttempts?: number;
+  /** How the delay between attempts grows */
+  strategy?: RetryStrategy;
+  /** Base delay in milliseconds */
+  baseDelay?: number;
+  /** Maximum delay in milliseconds */
+  maxDelay?: number;
+  /**
+   * Decide whether a failed attempt is retried.
+   * Predicates are kept in memory only; schedule the job again after a restart
+   * to restore it, or throw a NonRetryableError from the handler instead.
+   */
+  retryIf?: (error: Error) => boolean;
+}
+
+/**
+ * Effective retry configuration of the service or of a single job.
+ */
+export interface RetryConfig {
+  /** Maximum number of attempts */
+  maxAttempts: number;
+  /** How the delay between attempts grows */
+  strategy: RetryStrategy;
+  /** Base delay in milliseconds */
+  baseDelay: number;
+  /** Maximum delay in milliseconds */
+  maxDelay: number;
+  /** Whether a retryIf predicate decides which errors are retried */
+  hasRetryIf: boolean;
+  /** Whether an onError handler is configured */
+  hasErrorHandler: boolean;
+}
+
+/**
+ * Policy for occurrences whose scheduled time passed while the service was not running.
+ * - `fire-once`: run the job once, then continue with the next future occurrence
+ * - `fire-all`: run the job once for every missed occurrence
+ * - `skip`: drop the missed occurrences and continue with the next future occurrence
+ */
+export type MisfirePolicy = 'fire-once' | 'fire-all' | 'skip';
+
+/**
+ * Policy for occurrences that are due while a previous execution of the same job is still running.
+ * - `allow`: run the executions side by side
+ * - `skip`: drop the new occurrence and record it as skipped
+ * - `queue`: run the new occurrence once the previous execution finishes
+ * - `cancel-previous`: abort the previous execution and run the new occurrence
+ */
+export type OverlapPolicy = 'allow' | 'skip' | 'queue' | 'cancel-previous';
+
+/**
+ * Policy for scheduling a job under an identifier that is already taken.
+ * - `replace`: overwrite the existing job, resetting its status, run count and settings
+ * - `keep`: leave the existing job untouched
+ * - `error`: throw a `JobExistsError`
+ * - `update-handler-only`: bind the new handler and keep the job's schedule, payload, status and run count
+ */
+export type ConflictPolicy =
+  'replace' | 'keep' | 'error' | 'update-handler-only';
+
+/**
+ * Details of the execution passed to a job handler.
+ */
+export interface CronHandlerContext {
+  /** Unique identifier of the job */
+  identifier: string;
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Timestamp in milliseconds the occurrence was scheduled for */
+  scheduledFor: number;
+  /**
+   * Aborted when the attempt times out, when the job is cancelled or paused,
+   * when the service stops, or when a newer run supersedes it under `cancel-previous`
+   */
+  signal: AbortSignal;
 }
 
 /**
  * Function type for job execution handlers.
- * Should be async and handle any errors internally.
+ * Receives the job payload and should be async and handle any errors internally.
  */
-export type CronHandler = () => Promise<void> | void;
+export type CronHandler<T = any> = (
+  payload: T,
+  context: CronHandlerContext
+) => Promise<void> | void;
+
+/**
+ * Additional options for job scheduling.
+ */
+export interface ScheduleOptions<T = unknown> {
+  /** JSON-serializable payload stored with the job and passed to the handler */
+  payload?: T;
+  /** IANA time zone the cron expression is evaluated in, overriding the service default */
+  timezone?: string;
+  /** Concurrency group the job belongs to, limited by `groupConcurrency` */
+  group?: string;
+  /** Maximum simultaneous executions of this job (default: unlimited) */
+  concurrency?: number;
+  /** What happens when an occurrence is due while a previous one is still running (default: 'skip') */
+  overlap?: OverlapPolicy;
+  /** Tags attached to the job for filtering with `list()` */
+  tags?: string[];
+  /** Timeout in milliseconds of each execution attempt, overriding the service default */
+  timeout?: number;
+  /** Retry policy of this job, overriding the service defaults */
+  retry?: RetryPolicy;
+  /** Consecutive failed occurrences after which this recurring job is paused, overriding the service default */
+  maxConsecutiveFailures?: number;
+  /** Earliest time this recurring job runs at; occurrences before it are not run */
+  startAt?: number | Date;
+  /** Latest time this recurring job runs at; the job completes after its last occurrence up to this time */
+  endAt?: number | Date;
+  /** Number of runs after which this recurring job completes (default: unlimited) */
+  maxRuns?: number;
+  /** Misfire handling for this job, overriding the service defaults */
+  misfire?: {
+    /** Policy applied to missed occurrences */
+    policy?: MisfirePolicy;
+    /** Lateness in milliseconds up to which an occurrence still runs under the `skip` policy */
+    graceTime?: number;
+  };
+  /** What happens when a job with the same identifier already exists (default: 'replace') */
+  onConflict?: ConflictPolicy;
+}
+
+/**
+ * Options for running a job on demand.
+ */
+export interface TriggerOptions<T = unknown> {
+  /** JSON-serializable payload passed to the handler instead of the job's payload */
+  payloadOverride?: T;
+  /** Update the job's run count and last run like a scheduled occurrence (default: false) */
+  countAsRun?: boolean;
+}
+
+/**
+ * Options for changing the schedule of a job.
+ */
+export interface RescheduleOptions {
+  /** IANA time zone of the new cron expression (default: the job's current time zone) */
+  timezone?: string;
+}
+
+/**
+ * Schedule that runs a job at a fixed interval.
+ * Runs happen at `anchor + n * every`, so they do not drift when runs start
+ * late or take long to finish.
+ */
+export interface IntervalSchedule {
+  /** Time between runs in milliseconds, or a duration such as '90s', '36h' or '1h30m' */
+  every: number | string;
+  /** Time the intervals are counted from (default: the time the job is scheduled) */
+  anchor?: number | Date;
+}
 
 /**
  * Valid input types for job scheduling.
- * Can be a cron expression string, timestamp number, or Date object.
+ * Can be a cron expression string, timestamp number, Date object, or interval schedule.
+ */
+export type ScheduleInput = string | number | Date | IntervalSchedule;
+
+/**
+ * How a job's runs are scheduled.
+ * - `cron`: at the occurrences of a cron expression
+ * - `once`: once at a specific time
+ * - `interval`: at a fixed interval
+ */
+export type ScheduleType = 'cron' | 'once' | 'interval';
+
+/**
+ * Options for stopping the cron service.
+ */
+export interface StopOptions {
+  /** Wait for running executions to finish instead of aborting them (default: false) */
+  drain?: boolean;
+  /** Maximum time in milliseconds to wait when draining before aborting the remaining executions (default: no limit) */
+  timeout?: number;
+}
+
+/**
+ * Options for stopping the cron service when the process receives a termination signal.
+ */
+export interface ShutdownHookOptions extends StopOptions {
+  /** Signals to handle (default: ['SIGTERM', 'SIGINT']) */
+  signals?: NodeJS.Signals[];
+}
+
+/**
+ * Job lifecycle events emitted by the cron service, keyed by event name.
+ */
+export interface CronEventMap {
+  /** A job was scheduled or replaced */
+  'job:scheduled': [event: { identifier: string; id: string; nextRun: number }];
+  /** The schedule of a job was changed */
+  'job:rescheduled': [event: { identifier: string; nextRun: number }];
+  /** An execution attempt started */
+  'job:start': [
+    event: { identifier: string; attempt: number; scheduledFor: number },
+  ];
+  /** A job was run on demand */
+  'job:triggered': [event: { identifier: string }];
+  /** An occurrence was skipped because a previous execution was still running */
+  'job:skipped': [event: { identifier: string; scheduledFor: number }];
+  /** An execution attempt succeeded */
+  'job:success': [
+    event: { identifier: string; attempt: number; duration: number },
+  ];
+  /** An execution attempt failed and will be retried after `delay` milliseconds */
+  'job:retry': [
+    event: { identifier: string; attempt: number; delay: number; error: Error },
+  ];
+  /** All execution attempts failed */
+  'job:failed': [event: { identifier: string; attempts: number; error: Error }];
+  /** A one-time job moved to the `failed` state after its occurrence failed */
+  'job:dead-lettered': [
+    event: { identifier: string; consecutiveFailures: number; error: Error },
+  ];
+  /** A failed job was made active again */
+  'job:requeued': [event: { identifier: string; nextRun: number }];
+  /**
+   * A job was paused, by `pause()` or after `maxConsecutiveFailures` failed
+   * occurrences in a row; the latter includes the failure count and last error
+   */
+  'job:paused': [
+    event: { identifier: string; consecutiveFailures?: number; error?: Error },
+  ];
+  /** A job was resumed */
+  'job:resumed': [event: { identifier: string }];
+  /** A job was cancelled */
+  'job:cancelled': [event: { identifier: string }];
+  /** A one-time job ran, or a recurring job reached its end or maximum runs */
+  'job:completed': [event: { identifier: string }];
+  /** Old jobs were removed from storage */
+  cleanup: [event: { completed: number; cancelled: number }];
+  /** Jobs within the look-ahead window were (re)loaded and scheduled */
+  refresh: [event: { scheduled: number }];
+}
+
+/**
+ * Event emitter publishing job lifecycle events.
  */
-export type ScheduleInput = string | number | Date;
+export type CronEventEmitter = EventEmitter<CronEventMap>;
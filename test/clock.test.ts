@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { VirtualClock } from '../src';
+
+const START = Date.UTC(2030, 0, 1);
+
+describe('VirtualClock', () => {
+  test('starts at the given time', () => {
+    assert.equal(new VirtualClock(START).now(), START);
+    assert.equal(new VirtualClock(new Date(START)).now(), START);
+  });
+
+  test('fires timers in order of their due time', async () => {
+    const clock = new VirtualClock(START);
+    const fired: [string, number][] = [];
+    const record = (name: string) => () => {
+      fired.push([name, clock.now()]);
+    };
+
+    clock.setTimeout(record('late'), 300);
+    clock.setTimeout(record('early'), 100);
+    clock.setTimeout(record('tie'), 300);
+    clock.setTimeout(record('beyond'), 1000);
+
+    await clock.advanceBy(500);
+
+    assert.deepEqual(fired, [
+      ['early', START + 100],
+      ['late', START + 300],
+      ['tie', START + 300],
+    ]);
+    assert.equal(clock.now(), START + 500);
+    assert.equal(clock.pendingTimers, 1);
+  });
+
+  test('repeats intervals until they are cleared', async () => {
+    const clock = new VirtualClock(START);
+    const fired: number[] = [];
+    const interval = clock.setInterval(() => {
+      fired.push(clock.now() - START);
+    }, 100);
+
+    await clock.advanceBy(350);
+    clock.clearInterval(interval);
+    await clock.advanceBy(1000);
+
+    assert.deepEqual(fired, [100, 200, 300]);
+    assert.equal(clock.pendingTimers, 0);
+  });
+
+  test('does not fire cleared timers', async () => {
+    const clock = new VirtualClock(START);
+    let fired = false;
+    const timer = clock.setTimeout(() => {
+      fired = true;
+    }, 100);
+
+    clock.clearTimeout(timer);
+    await clock.advanceBy(100);
+
+    assert.equal(fired, false);
+  });
+
+  test('lets the work started by a timer settle before the next one fires', async () => {
+    const clock = new VirtualClock(START);
+    const steps: string[] = [];
+
+    clock.setTimeout(async () => {
+      await Promise.resolve();
+      steps.push('first started');
+      await new Promise<void>((resolve) => clock.setTimeout(resolve, 50));
+      steps.push('first finished');
+    }, 100);
+    clock.setTimeout(() => {
+      steps.push('second');
+    }, 100);
+
+    await clock.advanceBy(100);
+    assert.deepEqual(steps, ['first started', 'second']);
+
+    await clock.advanceBy(50);
+    assert.deepEqual(steps, ['first started', 'second', 'first finished']);
+  });
+
+  test('waits for work pending on real I/O with settle()', async () => {
+    const clock = new VirtualClock(START);
+    let finished = false;
+
+    clock.setTimeout(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      finished = true;
+    }, 100);
+
+    await clock.advanceBy(100);
+    assert.equal(finished, false);
+
+    await clock.settle();
+    assert.equal(finished, true);
+  });
+
+  test('does not move back in time', async () => {
+    const clock = new VirtualClock(START);
+
+    await assert.rejects(clock.advanceTo(START - 1), RangeError);
+    assert.throws(() => clock.advanceBy(-1), RangeError);
+    assert.throws(() => clock.advanceBy(NaN), RangeError);
+    assert.equal(clock.now(), START);
+  });
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { ScheduleOptions, TestScheduler } from '../src';
+import { createTestScheduler } from '../src';
+import { sleep } from './helpers';
+
+const START = Date.UTC(2030, 0, 1);
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Schedule a job at 01:00 whose executions take 10 minutes of virtual time.
+ * @param starts - Receives the identifier and start time of every execution
+ */
+async function scheduleSlowJob(
+  scheduler: TestScheduler,
+  identifier: string,
+  starts: [string, number][],
+  options: ScheduleOptions = {}
+) {
+  await scheduler.service.schedule(
+    START + HOUR,
+    identifier,
+    async () => {
+      starts.push([identifier, scheduler.now()]);
+      await sleep(scheduler.clock, 10 * MINUTE);
+    },
+    options
+  );
+}
+
+describe('concurrency limits', () => {
+  test('queue executions beyond the global limit', async (t) => {
+    const scheduler = await createTestScheduler({
+      now: START,
+      config: { concurrency: 2 },
+    });
+    t.after(() => scheduler.service.stop());
+
+    const starts: [string, number][] = [];
+    for (const identifier of ['first', 'second', 'third']) {
+      await scheduleSlowJob(scheduler, identifier, starts);
+    }
+
+    await scheduler.advanceBy(HOUR);
+    assert.deepEqual(starts, [
+      ['first', START + HOUR],
+      ['second', START + HOUR],
+    ]);
+    assert.deepEqual(scheduler.service.getQueueStats(), {
+      running: 2,
+      queued: 1,
+      oldestWaitTime: 0,
+      averageWaitTime: 0,
+    });
+
+    await scheduler.advanceBy(5 * MINUTE);
+    assert.equal(scheduler.service.getQueueStats().oldestWaitTime, 5 * MINUTE);
+
+    await scheduler.advanceBy(5 * MINUTE);
+    assert.deepEqual(starts[2], ['third', START + HOUR + 10 * MINUTE]);
+    assert.deepEqual(scheduler.service.getQueueStats(), {
+      running: 1,
+      queued: 0,
+      oldestWaitTime: 0,
+      averageWaitTime: (10 * MINUTE) / 3,
+    });
+  });
+
+  test('limit the executions of a group', async (t) => {
+    const scheduler = await createTestScheduler({
+      now: START,
+      config: { groupConcurrency: { reports: 1 } },
+    });
+    t.after(() => scheduler.service.stop());
+
+    const starts: [string, number][] = [];
+    await scheduleSlowJob(scheduler, 'daily', starts, { group: 'reports' });
+    await scheduleSlowJob(scheduler, 'weekly', starts, { group: 'reports' });
+    await scheduleSlowJob(scheduler, 'backup', starts);
+
+    await scheduler.advanceBy(HOUR + 10 * MINUTE);
+
+    assert.deepEqual(starts, [
+      ['daily', START + HOUR],
+      ['backup', START + HOUR],
+      ['weekly', START + HOUR + 10 * MINUTE],
+    ]);
+  });
+
+  test('limit the simultaneous executions of a job', async (t) => {
+    const scheduler = await createTestScheduler({
+      now: START,
+      config: { timezone: 'UTC' },
+    });
+    t.after(() => scheduler.service.stop());
+
+    const starts: number[] = [];
+    await scheduler.service.schedule(
+      '0 * * * *',
+      'hourly',
+      async () => {
+        starts.push(scheduler.now());
+        await sleep(scheduler.clock, 90 * MINUTE);
+      },
+      { overlap: 'allow', concurrency: 1 }
+    );
+
+    await scheduler.advanceBy(2 * HOUR);
+    assert.deepEqual(starts, [START + HOUR]);
+    assert.equal(scheduler.service.getQueueStats().queued, 1);
+
+    await scheduler.advanceBy(30 * MINUTE);
+    assert.deepEqual(starts, [START + HOUR, START + 2 * HOUR + 30 * MINUTE]);
+  });
+
+  test('reject limits below 1', async (t) => {
+    const scheduler = await createTestScheduler({ now: START });
+    t.after(() => scheduler.service.stop());
+
+    await assert.rejects(
+      scheduler.service.schedule(START + HOUR, 'job', () => {}, {
+        concurrency: 0,
+      }),
+      RangeError
+    );
+    await assert.rejects(
+      createTestScheduler({ config: { concurrency: 0 } }),
+      RangeError
+    );
+  });
+});
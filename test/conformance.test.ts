@@ -0,0 +1,37 @@
+import { after, test } from 'node:test';
+import type { TestContext } from 'node:test';
+import type { DriverConformanceReport } from '../src';
+import { MemoryDriver, SqliteDriver, runDriverConformance } from '../src';
+import { createTempDatabases, skipWithoutSqlite } from './helpers';
+
+async function reportResults(
+  t: TestContext,
+  report: DriverConformanceReport
+): Promise<void> {
+  for (const result of report.results) {
+    await t.test(result.name, () => {
+      if (result.error) throw result.error;
+    });
+  }
+}
+
+test('MemoryDriver conforms to the driver specification', async (t) => {
+  const report = await runDriverConformance(
+    (config) => new MemoryDriver(config)
+  );
+  await reportResults(t, report);
+});
+
+test(
+  'SqliteDriver conforms to the driver specification',
+  { skip: skipWithoutSqlite },
+  async (t) => {
+    const databases = createTempDatabases();
+    after(() => databases.cleanup());
+
+    const report = await runDriverConformance(
+      (config) => new SqliteDriver({ ...config, db: databases.path() })
+    );
+    await reportResults(t, report);
+  }
+);
@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { CronEventMap, CronService } from '../src';
+import { createTestScheduler } from '../src';
+
+const START = Date.UTC(2030, 0, 1);
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Record the given events in the order the service emits them.
+ */
+function recordEvents(
+  service: CronService,
+  names: (keyof CronEventMap)[]
+): [string, unknown][] {
+  const events: [string, unknown][] = [];
+  for (const name of names) {
+    service.on(name, (event: unknown) => {
+      events.push([name, event]);
+    });
+  }
+  return events;
+}
+
+describe('lifecycle events', () => {
+  test('follow a job through a retry to completion', async (t) => {
+    const scheduler = await createTestScheduler({
+      now: START,
+      config: { onError: () => {} },
+    });
+    t.after(() => scheduler.service.stop());
+
+    const events = recordEvents(scheduler.service, [
+      'job:scheduled',
+      'job:start',
+      'job:retry',
+      'job:success',
+      'job:completed',
+    ]);
+    const error = new Error('Temporary failure');
+    const id = await scheduler.service.schedule(
+      START + HOUR,
+      'deliver',
+      (_payload, { attempt }) => {
+        if (attempt === 1) throw error;
+      },
+      {
+        retry: {
+          maxAttempts: 2,
+          strategy: 'fixed',
+          baseDelay: MINUTE,
+          maxDelay: MINUTE,
+        },
+      }
+    );
+    await scheduler.advanceBy(HOUR + MINUTE);
+
+    assert.deepEqual(events, [
+      ['job:scheduled', { identifier: 'deliver', id, nextRun: START + HOUR }],
+      [
+        'job:start',
+        { identifier: 'deliver', attempt: 1, scheduledFor: START + HOUR },
+      ],
+      [
+        'job:retry',
+        { identifier: 'deliver', attempt: 1, delay: MINUTE, error },
+      ],
+      [
+        'job:start',
+        { identifier: 'deliver', attempt: 2, scheduledFor: START + HOUR },
+      ],
+      ['job:success', { identifier: 'deliver', attempt: 2, duration: 0 }],
+      ['job:completed', { identifier: 'deliver' }],
+    ]);
+  });
+
+  test('report a job that failed every attempt', async (t) => {
+    const scheduler = await createTestScheduler({
+      now: START,
+      config: { onError: () => {}, retry: { maxAttempts: 1 } },
+    });
+    t.after(() => scheduler.service.stop());
+
+    const events = recordEvents(scheduler.service, [
+      'job:failed',
+      'job:dead-lettered',
+      'job:requeued',
+    ]);
+    const error = new Error('Delivery failed');
+    await scheduler.service.schedule(START + HOUR, 'deliver', () => {
+      throw error;
+    });
+    await scheduler.advanceBy(HOUR);
+    await scheduler.service.requeue('deliver');
+
+    assert.deepEqual(events, [
+      ['job:failed', { identifier: 'deliver', attempts: 1, error }],
+      [
+        'job:dead-lettered',
+        { identifier: 'deliver', consecutiveFailures: 1, error },
+      ],
+      ['job:requeued', { identifier: 'deliver', nextRun: START + HOUR }],
+    ]);
+  });
+
+  test('report changes to a job', async (t) => {
+    const scheduler = await createTestScheduler({
+      now: START,
+      config: { timezone: 'UTC' },
+    });
+    t.after(() => scheduler.service.stop());
+
+    await scheduler.service.schedule('0 * * * *', 'hourly', () => {});
+    const events = recordEvents(scheduler.service, [
+      'job:paused',
+      'job:resumed',
+      'job:rescheduled',
+      'job:triggered',
+      'job:cancelled',
+    ]);
+
+    await scheduler.service.pause('hourly');
+    await scheduler.service.resume('hourly');
+    await scheduler.service.reschedule('hourly', '30 * * * *');
+    await scheduler.service.trigger('hourly');
+    await scheduler.service.cancel('hourly');
+
+    assert.deepEqual(events, [
+      ['job:paused', { identifier: 'hourly' }],
+      ['job:resumed', { identifier: 'hourly' }],
+      [
+        'job:rescheduled',
+        { identifier: 'hourly', nextRun: START + 30 * MINUTE },
+      ],
+      ['job:triggered', { identifier: 'hourly' }],
+      ['job:cancelled', { identifier: 'hourly' }],
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { CronService, MemoryDriver, VirtualClock } from '../src';
+
+const START = Date.UTC(2030, 0, 1);
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Memory driver whose storage fails while claiming an occurrence.
+ */
+class FailingClaimDriver extends MemoryDriver {
+  protected claimJob(): boolean {
+    throw new Error('Storage unavailable');
+  }
+}
+
+test('reports driver errors of timed executions through onError', async (t) => {
+  const clock = new VirtualClock(START);
+  const errors: Array<[string, string]> = [];
+  const service = new CronService(
+    new FailingClaimDriver({
+      clock,
+      timezone: 'UTC',
+      onError: (identifier, error) => errors.push([identifier, error.message]),
+    })
+  );
+  t.after(() => service.stop());
+
+  let runs = 0;
+  await service.start();
+  await service.schedule('0 * * * *', 'hourly', () => {
+    runs++;
+  });
+  await clock.advanceBy(HOUR);
+
+  assert.equal(runs, 0);
+  assert.deepEqual(errors, [['hourly', 'Storage unavailable']]);
+});
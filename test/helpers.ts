@@ -0,0 +1,155 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { isBuiltin } from 'node:module';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Clock } from '../src';
+
+/**
+ * Whether this Node.js version ships `node:sqlite`, which `SqliteDriver` needs.
+ */
+export const sqliteAvailable = isBuiltin('node:sqlite');
+
+/**
+ * Reason passed as `skip` to tests that need `node:sqlite`, or false if it is available.
+ */
+export const skipWithoutSqlite = sqliteAvailable
+  ? false
+  : 'node:sqlite is not available in this Node.js version';
+
+/**
+ * Create a temporary directory for database files.
+ * @returns Function returning a new database path on every call, and a cleanup function
+ */
+export function createTempDatabases(): {
+  path(): string;
+  cleanup(): void;
+} {
+  const directory = mkdtempSync(join(tmpdir(), 'hypercron-'));
+  let count = 0;
+
+  return {
+    path: () => join(directory, `test-${count++}.db`),
+    cleanup: () => rmSync(directory, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * Jobs stored in the database created by `createBaselineDatabase()`.
+ */
+export const BASELINE_JOBS = [
+  {
+    id: 'job-1',
+    cron_expression: '0 * * * *',
+    specific_time: null,
+    identifier: 'hourly',
+    status: 'active',
+    next_run: Date.UTC(2030, 0, 1, 1),
+    last_run: Date.UTC(2030, 0, 1),
+    run_count: 3,
+  },
+  {
+    id: 'job-2',
+    cron_expression: null,
+    specific_time: Date.UTC(2030, 0, 2),
+    identifier: 'reminder',
+    status: 'active',
+    next_run: Date.UTC(2030, 0, 2),
+    last_run: null,
+    run_count: 0,
+  },
+  {
+    id: 'job-3',
+    cron_expression: '0 0 * * *',
+    specific_time: null,
+    identifier: 'daily-report',
+    status: 'paused',
+    next_run: Date.UTC(2030, 0, 2),
+    last_run: null,
+    run_count: 0,
+  },
+];
+
+/**
+ * Create a database with the schema of the first release, which predates
+ * schema migrations, holding `BASELINE_JOBS`.
+ * @param path - Path of the database file
+ */
+export async function createBaselineDatabase(path: string): Promise<void> {
+  const { DatabaseSync } = await import('node:sqlite');
+  const db = new DatabaseSync(path);
+
+  db.exec(/* sql */ `
+    PRAGMA journal_mode = WAL;
+
+    CREATE TABLE IF NOT EXISTS cron_jobs (
+      id TEXT PRIMARY KEY,
+      cron_expression TEXT,
+      specific_time INTEGER,
+      identifier TEXT UNIQUE NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('active', 'paused', 'cancelled', 'completed')),
+      next_run INTEGER NOT NULL,
+      last_run INTEGER,
+      run_count INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      CONSTRAINT check_schedule_type CHECK (
+        (cron_expression IS NOT NULL AND specific_time IS NULL) OR
+        (cron_expression IS NULL AND specific_time IS NOT NULL)
+      )
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_cron_jobs_status_next_run
+    ON cron_jobs(status, next_run);
+
+    CREATE INDEX IF NOT EXISTS idx_cron_jobs_identifier
+    ON cron_jobs(identifier);
+
+    CREATE INDEX IF NOT EXISTS idx_cron_jobs_run_count
+    ON cron_jobs(run_count);
+  `);
+
+  const insert = db.prepare(/* sql */ `
+    INSERT INTO cron_jobs (
+      id, cron_expression, specific_time, identifier, status,
+      next_run, last_run, run_count, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const created = Date.UTC(2029, 11, 1);
+  for (const job of BASELINE_JOBS) {
+    insert.run(
+      job.id,
+      job.cron_expression,
+      job.specific_time,
+      job.identifier,
+      job.status,
+      job.next_run,
+      job.last_run,
+      job.run_count,
+      created,
+      created
+    );
+  }
+
+  db.close();
+}
+
+/**
+ * Wait for a duration on a clock, rejecting with the abort reason when the
+ * signal aborts first.
+ * @param clock - Clock to wait on
+ * @param ms - Duration in milliseconds
+ * @param signal - Signal that ends the wait early
+ */
+export function sleep(
+  clock: Clock,
+  ms: number,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = clock.setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clock.clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createTestScheduler } from '../src';
+import { sleep } from './helpers';
+
+const START = Date.UTC(2030, 0, 1);
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Run two hourly jobs for three hours: `import` takes five minutes and fails
+ * at 02:00 without being retried, `export` fails both of its attempts.
+ */
+async function runJobs() {
+  const scheduler = await createTestScheduler({
+    now: START,
+    config: {
+      timezone: 'UTC',
+      autoCleanup: { enabled: false },
+      retry: { maxAttempts: 1 },
+      onError: () => {},
+    },
+  });
+
+  await scheduler.service.schedule('0 * * * *', 'import', async () => {
+    await sleep(scheduler.clock, 5 * MINUTE);
+    if (scheduler.now() === START + 2 * HOUR + 5 * MINUTE) {
+      throw new Error('Import failed');
+    }
+  });
+  await scheduler.service.schedule(
+    '30 * * * *',
+    'export',
+    () => {
+      throw new Error('Export failed');
+    },
+    {
+      retry: {
+        maxAttempts: 2,
+        strategy: 'fixed',
+        baseDelay: MINUTE,
+        maxDelay: MINUTE,
+      },
+    }
+  );
+  await scheduler.advanceBy(3 * HOUR);
+
+  return scheduler;
+}
+
+describe('run history', () => {
+  test('records every attempt of a job, newest first', async (t) => {
+    const scheduler = await runJobs();
+    t.after(() => scheduler.service.stop());
+
+    const runs = await scheduler.service.getJobHistory('import');
+    assert.deepEqual(
+      runs.map((run) => [
+        run.scheduled_for,
+        run.attempt,
+        run.outcome,
+        run.started_at,
+        run.duration,
+        run.error_message,
+      ]),
+      [
+        [START + 3 * HOUR, 1, 'running', START + 3 * HOUR, null, null],
+        [
+          START + 2 * HOUR,
+          1,
+          'failure',
+          START + 2 * HOUR,
+          5 * MINUTE,
+          'Import failed',
+        ],
+        [START + HOUR, 1, 'success', START + HOUR, 5 * MINUTE, null],
+      ]
+    );
+    assert.ok(runs[1].error_stack?.includes('Import failed'));
+  });
+
+  test('pages through the history', async (t) => {
+    const scheduler = await runJobs();
+    t.after(() => scheduler.service.stop());
+
+    const [first] = await scheduler.service.getJobHistory('import', {
+      limit: 1,
+    });
+    assert.equal(first.scheduled_for, START + 3 * HOUR);
+
+    const rest = await scheduler.service.getJobHistory('import', {
+      before: first.id,
+    });
+    assert.deepEqual(
+      rest.map((run) => run.scheduled_for),
+      [START + 2 * HOUR, START + HOUR]
+    );
+
+    const recent = await scheduler.service.getJobHistory('import', {
+      since: START + 2 * HOUR,
+    });
+    assert.deepEqual(
+      recent.map((run) => run.scheduled_for),
+      [START + 3 * HOUR, START + 2 * HOUR]
+    );
+  });
+
+  test('lists the recent failures of all jobs, newest first', async (t) => {
+    const scheduler = await runJobs();
+    t.after(() => scheduler.service.stop());
+
+    const failures = await scheduler.service.getRecentFailures();
+    assert.deepEqual(
+      failures.map((run) => [run.identifier, run.attempt, run.started_at]),
+      [
+        ['export', 2, START + 2 * HOUR + 31 * MINUTE],
+        ['export', 1, START + 2 * HOUR + 30 * MINUTE],
+        ['import', 1, START + 2 * HOUR],
+        ['export', 2, START + HOUR + 31 * MINUTE],
+        ['export', 1, START + HOUR + 30 * MINUTE],
+        ['export', 2, START + 31 * MINUTE],
+        ['export', 1, START + 30 * MINUTE],
+      ]
+    );
+
+    const latest = await scheduler.service.getRecentFailures({
+      limit: 2,
+      since: START + 2 * HOUR,
+    });
+    assert.deepEqual(
+      latest.map((run) => [run.identifier, run.attempt]),
+      [
+        ['export', 2],
+        ['export', 1],
+      ]
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createTestScheduler } from '../src';
+
+describe('list()', () => {
+  test('pages through jobs with the given limit', async (t) => {
+    const scheduler = await createTestScheduler({ now: Date.UTC(2030, 0, 1) });
+    t.after(() => scheduler.service.stop());
+
+    for (const identifier of ['a', 'b', 'c']) {
+      await scheduler.service.schedule('0 * * * *', identifier, () => {});
+    }
+
+    const first = await scheduler.service.list({ limit: 2 });
+    assert.deepEqual(
+      first.jobs.map((job) => job.identifier),
+      ['a', 'b']
+    );
+    assert.ok(first.nextCursor);
+
+    const second = await scheduler.service.list({
+      limit: 2,
+      cursor: first.nextCursor,
+    });
+    assert.deepEqual(
+      second.jobs.map((job) => job.identifier),
+      ['c']
+    );
+    assert.equal(second.nextCursor, null);
+  });
+
+  test('rejects a limit that is not a positive integer', async (t) => {
+    const scheduler = await createTestScheduler({ now: Date.UTC(2030, 0, 1) });
+    t.after(() => scheduler.service.stop());
+
+    await scheduler.service.schedule('0 * * * *', 'hourly', () => {});
+
+    for (const limit of [0, -1, 1.5, NaN]) {
+      await assert.rejects(scheduler.service.list({ limit }), {
+        name: 'RangeError',
+        message: `Invalid limit: ${limit}`,
+      });
+    }
+  });
+});
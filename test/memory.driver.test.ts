@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { after, describe, test } from 'node:test';
+import { CronService, MemoryDriver, SqliteDriver, VirtualClock } from '../src';
+import { createTempDatabases, skipWithoutSqlite } from './helpers';
+
+const START = Date.UTC(2030, 0, 1);
+const HOUR = 60 * 60 * 1000;
+
+describe('MemoryDriver', () => {
+  test('keeps jobs across stop() and start()', async (t) => {
+    const clock = new VirtualClock(START);
+    const service = new CronService(
+      new MemoryDriver({ clock, timezone: 'UTC' })
+    );
+    t.after(() => service.stop());
+
+    let runs = 0;
+    await service.schedule('0 * * * *', 'hourly', () => {
+      runs++;
+    });
+    await service.stop();
+
+    await clock.advanceBy(HOUR);
+    assert.equal(runs, 0);
+    assert.equal((await service.get('hourly'))?.status, 'active');
+
+    await service.start();
+    await clock.advanceBy(HOUR);
+    assert.equal(runs, 2);
+  });
+
+  test('discards jobs when destroyed', async () => {
+    const driver = new MemoryDriver({ clock: new VirtualClock(START) });
+    await driver.schedule('0 * * * *', 'hourly', () => {});
+
+    await driver.destroy();
+
+    assert.equal(await driver.get('hourly'), null);
+    await driver.destroy();
+  });
+});
+
+describe(
+  'MemoryDriver compared to SqliteDriver',
+  { skip: skipWithoutSqlite },
+  () => {
+    const databases = createTempDatabases();
+    after(() => databases.cleanup());
+
+    test('sorts identifiers the same way', async (t) => {
+      const identifiers = ['b', 'B', 'é', 'a-2', 'a_1', 'a', 'Z', '10', '9'];
+      const pages: string[][] = [];
+
+      for (const driver of [
+        new MemoryDriver({ clock: new VirtualClock(START) }),
+        new SqliteDriver({
+          db: databases.path(),
+          clock: new VirtualClock(START),
+        }),
+      ]) {
+        t.after(() => driver.destroy());
+        for (const identifier of identifiers) {
+          await driver.schedule('0 * * * *', identifier, () => {});
+        }
+
+        const identifiersInOrder: string[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await driver.list({ limit: 2, cursor });
+          identifiersInOrder.push(...page.jobs.map((job) => job.identifier));
+          cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+        pages.push(identifiersInOrder);
+      }
+
+      assert.deepEqual(pages[0], pages[1]);
+      assert.equal(pages[0].length, identifiers.length);
+    });
+  }
+);
@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import { after, describe, test } from 'node:test';
+import type { DatabaseSync } from 'node:sqlite';
+import { SqliteDriver } from '../src';
+import {
+  getSchemaVersion,
+  migrate,
+  migrations,
+} from '../src/driver/sqlite.migrations';
+import {
+  BASELINE_JOBS,
+  createBaselineDatabase,
+  createTempDatabases,
+  skipWithoutSqlite,
+} from './helpers';
+
+const LATEST = migrations[migrations.length - 1].version;
+
+describe('SQLite migrations', { skip: skipWithoutSqlite }, () => {
+  const databases = createTempDatabases();
+  after(() => databases.cleanup());
+
+  async function openBaseline(): Promise<DatabaseSync> {
+    const path = databases.path();
+    await createBaselineDatabase(path);
+
+    const { DatabaseSync } = await import('node:sqlite');
+    return new DatabaseSync(path);
+  }
+
+  function columnsOf(db: DatabaseSync, table: string): string[] {
+    const columns = db
+      .prepare(/* sql */ `SELECT name FROM pragma_table_info(?)`)
+      .all(table) as { name: string }[];
+    return columns.map((column) => column.name);
+  }
+
+  test('upgrades a baseline database to the latest version', async (t) => {
+    const db = await openBaseline();
+    t.after(() => db.close());
+
+    assert.equal(getSchemaVersion(db), 0);
+    assert.deepEqual(migrate(db), { from: 0, to: LATEST });
+    assert.equal(getSchemaVersion(db), LATEST);
+    assert.ok(columnsOf(db, 'cron_job_runs').length > 0);
+
+    // Running again is a no-op
+    assert.deepEqual(migrate(db), { from: LATEST, to: LATEST });
+  });
+
+  test('preserves existing jobs', async (t) => {
+    const db = await openBaseline();
+    t.after(() => db.close());
+
+    migrate(db);
+
+    const rows = db
+      .prepare(/* sql */ `SELECT * FROM cron_jobs ORDER BY id`)
+      .all() as Record<string, unknown>[];
+
+    assert.equal(rows.length, BASELINE_JOBS.length);
+    for (const [index, job] of BASELINE_JOBS.entries()) {
+      const row = rows[index];
+      for (const [column, value] of Object.entries(job)) {
+        assert.equal(row[column], value, `${job.identifier}.${column}`);
+      }
+      assert.equal(row.consecutive_failures, 0);
+      assert.equal(row.overlap, 'skip');
+      assert.equal(row.tags, '[]');
+      assert.equal(row.interval, null);
+    }
+  });
+
+  test('backfills the schedule type of existing jobs', async (t) => {
+    const db = await openBaseline();
+    t.after(() => db.close());
+
+    migrate(db);
+
+    const rows = db
+      .prepare(
+        /* sql */ `SELECT identifier, schedule_type FROM cron_jobs ORDER BY id`
+      )
+      .all();
+
+    assert.deepEqual(
+      rows.map((row) => ({ ...row })),
+      [
+        { identifier: 'hourly', schedule_type: 'cron' },
+        { identifier: 'reminder', schedule_type: 'once' },
+        { identifier: 'daily-report', schedule_type: 'cron' },
+      ]
+    );
+  });
+
+  test('rolls back every migration when one fails', async (t) => {
+    const db = await openBaseline();
+    t.after(() => db.close());
+
+    migrations.push({
+      version: LATEST + 1,
+      description: 'Fail after changing the schema',
+      up(db) {
+        db.exec(/* sql */ `ALTER TABLE cron_jobs ADD COLUMN broken TEXT`);
+        throw new Error('Migration failed');
+      },
+    });
+    try {
+      assert.throws(() => migrate(db), { message: 'Migration failed' });
+    } finally {
+      migrations.pop();
+    }
+
+    assert.equal(getSchemaVersion(db), 0);
+    assert.ok(!columnsOf(db, 'cron_jobs').includes('schedule_type'));
+    assert.ok(!columnsOf(db, 'cron_jobs').includes('broken'));
+    assert.deepEqual(columnsOf(db, 'cron_job_runs'), []);
+
+    const { count } = db
+      .prepare(/* sql */ `SELECT COUNT(*) AS count FROM cron_jobs`)
+      .get() as { count: number };
+    assert.equal(count, BASELINE_JOBS.length);
+  });
+
+  test('rejects a database newer than the supported version', async (t) => {
+    const path = databases.path();
+    const { DatabaseSync } = await import('node:sqlite');
+    const db = new DatabaseSync(path);
+    t.after(() => db.close());
+
+    migrate(db);
+    db.exec(/* sql */ `PRAGMA user_version = ${LATEST + 1}`);
+
+    const message = `Database schema version ${LATEST + 1} is newer than the latest supported version ${LATEST}`;
+    assert.throws(() => migrate(db), { message });
+    assert.equal(getSchemaVersion(db), LATEST + 1);
+
+    const driver = new SqliteDriver({ db: path });
+    await assert.rejects(driver.init(), { message });
+  });
+});
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { MisfirePolicy } from '../src';
+import { createTestScheduler } from '../src';
+
+const START = Date.UTC(2030, 0, 1);
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Schedule an hourly job, then keep the service down from 00:00 until `until`
+ * so the occurrences in between are missed.
+ * @returns Occurrences the job ran for, and the scheduler
+ */
+async function missOccurrences(policy: MisfirePolicy, until: number) {
+  const scheduler = await createTestScheduler({
+    now: START,
+    config: { timezone: 'UTC', autoCleanup: { enabled: false } },
+  });
+
+  const runs: { scheduledFor: number; at: number }[] = [];
+  await scheduler.service.schedule(
+    '0 * * * *',
+    'hourly',
+    (_payload, { scheduledFor }) => {
+      runs.push({ scheduledFor, at: scheduler.now() });
+    },
+    { misfire: { policy } }
+  );
+
+  await scheduler.service.stop();
+  await scheduler.advanceTo(until);
+  await scheduler.service.start();
+  await scheduler.advanceBy(0);
+
+  return { scheduler, runs };
+}
+
+describe('misfire policies', () => {
+  test('fire-once runs a missed job once and continues with the next occurrence', async (t) => {
+    const { scheduler, runs } = await missOccurrences(
+      'fire-once',
+      START + 3 * HOUR + 30 * MINUTE
+    );
+    t.after(() => scheduler.service.stop());
+
+    assert.deepEqual(runs, [
+      { scheduledFor: START + HOUR, at: START + 3 * HOUR + 30 * MINUTE },
+    ]);
+    assert.equal(
+      (await scheduler.service.get('hourly'))?.next_run,
+      START + 4 * HOUR
+    );
+  });
+
+  test('fire-all runs every missed occurrence back to back', async (t) => {
+    const { scheduler, runs } = await missOccurrences(
+      'fire-all',
+      START + 3 * HOUR + 30 * MINUTE
+    );
+    t.after(() => scheduler.service.stop());
+
+    const restartedAt = START + 3 * HOUR + 30 * MINUTE;
+    assert.deepEqual(runs, [
+      { scheduledFor: START + HOUR, at: restartedAt },
+      { scheduledFor: START + 2 * HOUR, at: restartedAt },
+      { scheduledFor: START + 3 * HOUR, at: restartedAt },
+    ]);
+    assert.equal(
+      (await scheduler.service.get('hourly'))?.next_run,
+      START + 4 * HOUR
+    );
+  });
+
+  test('skip drops missed occurrences', async (t) => {
+    const { scheduler, runs } = await missOccurrences(
+      'skip',
+      START + 3 * HOUR + 30 * MINUTE
+    );
+    t.after(() => scheduler.service.stop());
+
+    assert.deepEqual(runs, []);
+    assert.equal(
+      (await scheduler.service.get('hourly'))?.next_run,
+      START + 4 * HOUR
+    );
+
+    await scheduler.advanceBy(30 * MINUTE);
+    assert.deepEqual(runs, [
+      { scheduledFor: START + 4 * HOUR, at: START + 4 * HOUR },
+    ]);
+  });
+
+  test('skip still runs an occurrence late by no more than the grace time', async (t) => {
+    const { scheduler, runs } = await missOccurrences(
+      'skip',
+      START + HOUR + 30 * 1000
+    );
+    t.after(() => scheduler.service.stop());
+
+    assert.deepEqual(runs, [
+      { scheduledFor: START + HOUR, at: START + HOUR + 30 * 1000 },
+    ]);
+    assert.equal(
+      (await scheduler.service.get('hourly'))?.next_run,
+      START + 2 * HOUR
+    );
+  });
+
+  test('skip completes a missed one-time job without running it', async (t) => {
+    const scheduler = await createTestScheduler({
+      now: START,
+      config: { misfire: { policy: 'skip' }, autoCleanup: { enabled: false } },
+    });
+    t.after(() => scheduler.service.stop());
+
+    let runs = 0;
+    await scheduler.service.schedule(START + HOUR, 'once', () => {
+      runs++;
+    });
+    await scheduler.service.stop();
+    await scheduler.advanceTo(START + 2 * HOUR);
+    await scheduler.service.start();
+    await scheduler.advanceBy(0);
+
+    assert.equal(runs, 0);
+    assert.equal((await scheduler.service.get('once'))?.status, 'completed');
+  });
+});
@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { OverlapPolicy } from '../src';
+import { createTestScheduler } from '../src';
+import { sleep } from './helpers';
+
+const START = Date.UTC(2030, 0, 1);
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+interface Execution {
+  scheduledFor: number;
+  started: number;
+  ended?: number;
+}
+
+/**
+ * Schedule an hourly job whose executions take 90 minutes of virtual time,
+ * so every occurrence is due while the previous one is still running.
+ * @returns Start and end of every execution, and the scheduler
+ */
+async function scheduleSlowJob(policy: OverlapPolicy) {
+  const scheduler = await createTestScheduler({
+    now: START,
+    config: { timezone: 'UTC', autoCleanup: { enabled: false } },
+  });
+
+  const executions: Execution[] = [];
+  await scheduler.service.schedule(
+    '0 * * * *',
+    'slow',
+    async (_payload, { scheduledFor, signal }) => {
+      const execution: Execution = { scheduledFor, started: scheduler.now() };
+      executions.push(execution);
+      await sleep(scheduler.clock, 90 * MINUTE, signal);
+      execution.ended = scheduler.now();
+    },
+    { overlap: policy }
+  );
+
+  return { scheduler, executions };
+}
+
+describe('overlap policies', () => {
+  test('allow runs overlapping executions side by side', async (t) => {
+    const { scheduler, executions } = await scheduleSlowJob('allow');
+    t.after(() => scheduler.service.stop());
+
+    await scheduler.advanceBy(2 * HOUR);
+
+    assert.deepEqual(executions, [
+      { scheduledFor: START + HOUR, started: START + HOUR },
+      { scheduledFor: START + 2 * HOUR, started: START + 2 * HOUR },
+    ]);
+
+    await scheduler.advanceBy(30 * MINUTE);
+    assert.equal(executions[0].ended, START + 2 * HOUR + 30 * MINUTE);
+  });
+
+  test('skip drops an occurrence due while the job is running', async (t) => {
+    const { scheduler, executions } = await scheduleSlowJob('skip');
+    t.after(() => scheduler.service.stop());
+
+    const skipped: number[] = [];
+    scheduler.service.on('job:skipped', ({ scheduledFor }) => {
+      skipped.push(scheduledFor);
+    });
+
+    await scheduler.advanceBy(3 * HOUR);
+
+    assert.deepEqual(
+      executions.map(({ scheduledFor, started }) => [scheduledFor, started]),
+      [
+        [START + HOUR, START + HOUR],
+        [START + 3 * HOUR, START + 3 * HOUR],
+      ]
+    );
+    assert.deepEqual(skipped, [START + 2 * HOUR]);
+
+    const runs = await scheduler.service.getJobHistory('slow');
+    assert.deepEqual(
+      runs
+        .sort((a, b) => a.scheduled_for! - b.scheduled_for!)
+        .map((run) => [run.scheduled_for, run.outcome]),
+      [
+        [START + HOUR, 'success'],
+        [START + 2 * HOUR, 'skipped'],
+        [START + 3 * HOUR, 'running'],
+      ]
+    );
+  });
+
+  test('queue runs an overlapping occurrence after the running one', async (t) => {
+    const { scheduler, executions } = await scheduleSlowJob('queue');
+    t.after(() => scheduler.service.stop());
+
+    await scheduler.advanceBy(4 * HOUR);
+
+    assert.deepEqual(executions, [
+      {
+        scheduledFor: START + HOUR,
+        started: START + HOUR,
+        ended: START + 2 * HOUR + 30 * MINUTE,
+      },
+      {
+        scheduledFor: START + 2 * HOUR,
+        started: START + 2 * HOUR + 30 * MINUTE,
+        ended: START + 4 * HOUR,
+      },
+      { scheduledFor: START + 3 * HOUR, started: START + 4 * HOUR },
+    ]);
+  });
+
+  test('cancel-previous aborts the running execution', async (t) => {
+    const { scheduler, executions } = await scheduleSlowJob('cancel-previous');
+    t.after(() => scheduler.service.stop());
+
+    await scheduler.advanceBy(2 * HOUR);
+
+    assert.deepEqual(executions, [
+      { scheduledFor: START + HOUR, started: START + HOUR },
+      { scheduledFor: START + 2 * HOUR, started: START + 2 * HOUR },
+    ]);
+
+    const runs = await scheduler.service.getJobHistory('slow');
+    assert.deepEqual(
+      runs
+        .sort((a, b) => a.scheduled_for! - b.scheduled_for!)
+        .map((run) => [run.scheduled_for, run.outcome]),
+      [
+        [START + HOUR, 'cancelled'],
+        [START + 2 * HOUR, 'running'],
+      ]
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createTestScheduler } from '../src';
+
+const START = Date.UTC(2030, 0, 1);
+const HOUR = 60 * 60 * 1000;
+
+describe('job payloads', () => {
+  test('passes the updated payload to the next run', async (t) => {
+    const scheduler = await createTestScheduler({
+      now: START,
+      config: { timezone: 'UTC' },
+    });
+    t.after(() => scheduler.service.stop());
+
+    const payloads: unknown[] = [];
+    await scheduler.service.schedule(
+      '0 * * * *',
+      'report',
+      (payload) => {
+        payloads.push(payload);
+      },
+      { payload: { recipients: ['ops'] } }
+    );
+    await scheduler.advanceBy(HOUR);
+
+    assert.equal(
+      await scheduler.service.updatePayload('report', {
+        recipients: ['ops', 'finance'],
+      }),
+      true
+    );
+    assert.deepEqual((await scheduler.service.get('report'))?.payload, {
+      recipients: ['ops', 'finance'],
+    });
+
+    await scheduler.advanceBy(HOUR);
+    assert.deepEqual(payloads, [
+      { recipients: ['ops'] },
+      { recipients: ['ops', 'finance'] },
+    ]);
+  });
+
+  test('returns false for an unknown job', async (t) => {
+    const scheduler = await createTestScheduler({ now: START });
+    t.after(() => scheduler.service.stop());
+
+    assert.equal(await scheduler.service.updatePayload('missing', {}), false);
+  });
+
+  test('rejects a payload that is not JSON-serializable', async (t) => {
+    const scheduler = await createTestScheduler({ now: START });
+    t.after(() => scheduler.service.stop());
+
+    await scheduler.service.schedule('0 * * * *', 'report', () => {}, {
+      payload: { day: 1 },
+    });
+
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    await assert.rejects(
+      scheduler.service.updatePayload('report', circular),
+      TypeError
+    );
+    await assert.rejects(
+      scheduler.service.updatePayload('report', () => {}),
+      TypeError
+    );
+    assert.deepEqual((await scheduler.service.get('report'))?.payload, {
+      day: 1,
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { RetryPolicy } from '../src';
+import { createTestScheduler, NonRetryableError } from '../src';
+import { getRetryDelay } from '../src/retry';
+
+const START = Date.UTC(2030, 0, 1);
+const SECOND = 1000;
+const HOUR = 60 * 60 * SECOND;
+
+/** Largest value a random source may return */
+const ALMOST_ONE = 1 - Number.EPSILON;
+
+describe('getRetryDelay()', () => {
+  const bounds = { baseDelay: SECOND, maxDelay: 30 * SECOND };
+
+  test('waits the base delay with the fixed strategy', () => {
+    const options = { ...bounds, strategy: 'fixed' as const };
+    assert.deepEqual(
+      [1, 2, 3].map((attempt) => getRetryDelay(options, attempt, null)),
+      [SECOND, SECOND, SECOND]
+    );
+  });
+
+  test('grows the delay with the attempt number with the linear strategy', () => {
+    const options = { ...bounds, strategy: 'linear' as const };
+    assert.deepEqual(
+      [1, 2, 3].map((attempt) => getRetryDelay(options, attempt, null)),
+      [SECOND, 2 * SECOND, 3 * SECOND]
+    );
+  });
+
+  test('doubles the delay up to the maximum with the exponential strategy', () => {
+    const options = { ...bounds, strategy: 'exponential' as const };
+    assert.deepEqual(
+      [1, 2, 3, 4, 5, 6].map((attempt) =>
+        getRetryDelay(options, attempt, null)
+      ),
+      [SECOND, 2 * SECOND, 4 * SECOND, 8 * SECOND, 16 * SECOND, 30 * SECOND]
+    );
+  });
+
+  test('picks a delay between 0 and the exponential delay with full jitter', () => {
+    const options = { ...bounds, strategy: 'full-jitter' as const };
+
+    assert.equal(
+      getRetryDelay(options, 3, null, () => 0),
+      0
+    );
+    assert.equal(
+      getRetryDelay(options, 3, null, () => 0.5),
+      2 * SECOND
+    );
+    assert.equal(
+      getRetryDelay(options, 3, null, () => ALMOST_ONE),
+      4 * SECOND
+    );
+    assert.equal(
+      getRetryDelay(options, 10, null, () => ALMOST_ONE),
+      30 * SECOND
+    );
+  });
+
+  test('picks a delay between the base delay and three times the previous delay with decorrelated jitter', () => {
+    const options = { ...bounds, strategy: 'decorrelated-jitter' as const };
+
+    assert.equal(
+      getRetryDelay(options, 1, null, () => 0),
+      SECOND
+    );
+    assert.equal(
+      getRetryDelay(options, 1, null, () => ALMOST_ONE),
+      3 * SECOND
+    );
+    assert.equal(
+      getRetryDelay(options, 2, 5 * SECOND, () => 0),
+      SECOND
+    );
+    assert.equal(
+      getRetryDelay(options, 2, 5 * SECOND, () => 0.5),
+      8 * SECOND
+    );
+    assert.equal(
+      getRetryDelay(options, 3, 20 * SECOND, () => ALMOST_ONE),
+      30 * SECOND
+    );
+  });
+});
+
+describe('retry filters', () => {
+  /**
+   * Run a one-time job that fails every attempt with the given error.
+   * @returns Number of attempts made
+   */
+  async function countAttempts(error: Error, retry: RetryPolicy = {}) {
+    const scheduler = await createTestScheduler({
+      now: START,
+      config: {
+        onError: () => {},
+        retry: { maxAttempts: 3, strategy: 'fixed', baseDelay: SECOND },
+      },
+    });
+
+    let attempts = 0;
+    await scheduler.service.schedule(
+      START + HOUR,
+      'deliver',
+      () => {
+        attempts++;
+        throw error;
+      },
+      { retry }
+    );
+    await scheduler.advanceBy(HOUR + 10 * SECOND);
+    await scheduler.service.stop();
+
+    return attempts;
+  }
+
+  const transient = Object.assign(new Error('Timed out'), {
+    code: 'ETIMEDOUT',
+  });
+  const permanent = Object.assign(new Error('Not found'), { code: 'ENOENT' });
+  const retryIf = (error: Error) =>
+    (error as Error & { code?: string }).code === 'ETIMEDOUT';
+
+  test('retry errors accepted by retryIf', async () => {
+    assert.equal(await countAttempts(transient, { retryIf }), 3);
+  });
+
+  test('do not retry errors rejected by retryIf', async () => {
+    assert.equal(await countAttempts(permanent, { retryIf }), 1);
+  });
+
+  test('do not retry when retryIf throws', async () => {
+    const failing = () => {
+      throw new Error('Broken predicate');
+    };
+    assert.equal(await countAttempts(transient, { retryIf: failing }), 1);
+  });
+
+  test('do not retry a NonRetryableError', async () => {
+    assert.equal(
+      await countAttempts(new NonRetryableError('Invalid payload')),
+      1
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createTestScheduler } from '../src';
+import { getNextCronRun } from '../src/schedule';
+
+const timezone = 'Europe/Berlin';
+
+// Clocks spring forward from 02:00 CET to 03:00 CEST on 2030-03-31, and fall
+// back from 03:00 CEST to 02:00 CET on 2030-10-27, both at 01:00 UTC
+const SPRING_FORWARD = Date.UTC(2030, 2, 31, 1);
+const FALL_BACK = Date.UTC(2030, 9, 27, 1);
+const HOUR = 60 * 60 * 1000;
+
+describe('getNextCronRun() across daylight saving time', () => {
+  test('shifts an occurrence in the skipped hour forward by the gap', () => {
+    // 02:30 does not exist that day and runs at 03:30 CEST
+    assert.equal(
+      getNextCronRun('30 2 * * *', {
+        from: SPRING_FORWARD - 12 * HOUR,
+        timezone,
+      }),
+      Date.UTC(2030, 2, 31, 1, 30)
+    );
+
+    // The next day runs at 02:30 CEST again
+    assert.equal(
+      getNextCronRun('30 2 * * *', {
+        from: Date.UTC(2030, 2, 31, 1, 30),
+        timezone,
+      }),
+      Date.UTC(2030, 3, 1, 0, 30)
+    );
+  });
+
+  test('runs a daily job only in the first pass of the repeated hour', () => {
+    // 02:30 CEST, the first pass
+    const first = getNextCronRun('30 2 * * *', {
+      from: FALL_BACK - 12 * HOUR,
+      timezone,
+    });
+    assert.equal(first, Date.UTC(2030, 9, 27, 0, 30));
+
+    // 02:30 CET, the second pass, is skipped in favor of the next day
+    assert.equal(
+      getNextCronRun('30 2 * * *', { from: first, timezone }),
+      Date.UTC(2030, 9, 28, 1, 30)
+    );
+  });
+
+  test('runs an hourly job in both passes of the repeated hour', () => {
+    const runs: number[] = [];
+    let from = FALL_BACK - 3 * HOUR;
+    for (let i = 0; i < 4; i++) {
+      from = getNextCronRun('0 * * * *', { from, timezone });
+      runs.push(from);
+    }
+
+    // 01:00 CEST, 02:00 CEST, 02:00 CET, 03:00 CET
+    assert.deepEqual(runs, [
+      FALL_BACK - 2 * HOUR,
+      FALL_BACK - HOUR,
+      FALL_BACK,
+      FALL_BACK + HOUR,
+    ]);
+  });
+});
+
+describe('job time zones', () => {
+  test('evaluate a job in its own time zone over the service default', async (t) => {
+    const scheduler = await createTestScheduler({
+      now: SPRING_FORWARD - 12 * HOUR,
+      config: { timezone: 'UTC', autoCleanup: { enabled: false } },
+    });
+    t.after(() => scheduler.service.stop());
+
+    const runs: Record<string, number[]> = { berlin: [], utc: [] };
+    await scheduler.service.schedule(
+      '30 2 * * *',
+      'berlin',
+      () => {
+        runs.berlin.push(scheduler.now());
+      },
+      { timezone }
+    );
+    await scheduler.service.schedule('30 2 * * *', 'utc', () => {
+      runs.utc.push(scheduler.now());
+    });
+
+    assert.equal((await scheduler.service.get('berlin'))?.timezone, timezone);
+    assert.equal((await scheduler.service.get('utc'))?.timezone, null);
+
+    await scheduler.advanceTo(Date.UTC(2030, 3, 1, 3));
+
+    // 03:30 CEST on the day of the gap, then 02:30 CEST
+    assert.deepEqual(runs.berlin, [
+      Date.UTC(2030, 2, 31, 1, 30),
+      Date.UTC(2030, 3, 1, 0, 30),
+    ]);
+    assert.deepEqual(runs.utc, [
+      Date.UTC(2030, 2, 31, 2, 30),
+      Date.UTC(2030, 3, 1, 2, 30),
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { StopOptions } from '../src';
+import { createTestScheduler } from '../src';
+import { sleep } from './helpers';
+
+const START = Date.UTC(2030, 0, 1);
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Start a job that takes 10 minutes of virtual time, then stop the service
+ * while it is running.
+ * @returns Whether stop() resolved and the handler finished or was aborted,
+ *   the pending stop() and the scheduler
+ */
+async function stopWhileRunning(options: StopOptions) {
+  const scheduler = await createTestScheduler({
+    now: START,
+    config: { timezone: 'UTC', onError: () => {} },
+  });
+
+  const state = { stopped: false, finished: false, aborted: false };
+  await scheduler.service.schedule(
+    START + HOUR,
+    'export',
+    async (_payload, { signal }) => {
+      try {
+        await sleep(scheduler.clock, 10 * MINUTE, signal);
+        state.finished = true;
+      } catch (error) {
+        state.aborted = true;
+        throw error;
+      }
+    }
+  );
+  await scheduler.advanceBy(HOUR);
+
+  const stopping = scheduler.service.stop(options).then(() => {
+    state.stopped = true;
+  });
+  await scheduler.advanceBy(0);
+
+  return { scheduler, state, stopping };
+}
+
+describe('stop()', () => {
+  test('aborts running executions by default', async () => {
+    const { scheduler, state, stopping } = await stopWhileRunning({});
+    await stopping;
+
+    assert.deepEqual(state, { stopped: true, finished: false, aborted: true });
+    const [run] = await scheduler.service.getJobHistory('export');
+    assert.equal(run.outcome, 'cancelled');
+  });
+
+  test('waits for running executions to finish when draining', async () => {
+    const { scheduler, state, stopping } = await stopWhileRunning({
+      drain: true,
+    });
+
+    await scheduler.advanceBy(9 * MINUTE);
+    assert.deepEqual(state, {
+      stopped: false,
+      finished: false,
+      aborted: false,
+    });
+
+    await scheduler.advanceBy(MINUTE);
+    await stopping;
+
+    assert.deepEqual(state, { stopped: true, finished: true, aborted: false });
+    const [run] = await scheduler.service.getJobHistory('export');
+    assert.equal(run.outcome, 'success');
+    assert.equal(run.finished_at, START + HOUR + 10 * MINUTE);
+  });
+
+  test('aborts executions still running when the drain times out', async () => {
+    const { scheduler, state, stopping } = await stopWhileRunning({
+      drain: true,
+      timeout: 5 * MINUTE,
+    });
+
+    await scheduler.advanceBy(4 * MINUTE);
+    assert.deepEqual(state, {
+      stopped: false,
+      finished: false,
+      aborted: false,
+    });
+
+    await scheduler.advanceBy(MINUTE);
+    await stopping;
+
+    assert.deepEqual(state, { stopped: true, finished: false, aborted: true });
+    const [run] = await scheduler.service.getJobHistory('export');
+    assert.equal(run.outcome, 'cancelled');
+    assert.equal(run.finished_at, START + HOUR + 5 * MINUTE);
+  });
+});
@@ -0,0 +1,285 @@
+import assert from 'node:assert/strict';
+import { after, describe, test } from 'node:test';
+import type { CronServiceConfig } from '../src';
+import { CronService, SqliteDriver, VirtualClock } from '../src';
+import {
+  BASELINE_JOBS,
+  createBaselineDatabase,
+  createTempDatabases,
+  skipWithoutSqlite,
+} from './helpers';
+
+const START = Date.UTC(2030, 0, 1);
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+describe(
+  'SqliteDriver on an upgraded database',
+  { skip: skipWithoutSqlite },
+  () => {
+    const databases = createTempDatabases();
+    after(() => databases.cleanup());
+
+    async function openBaseline(config: Omit<CronServiceConfig, 'db'> = {}) {
+      const path = databases.path();
+      await createBaselineDatabase(path);
+
+      const clock = new VirtualClock(START);
+      const service = new CronService(
+        new SqliteDriver({
+          timezone: 'UTC',
+          autoCleanup: { enabled: false },
+          onError: () => {},
+          ...config,
+          db: path,
+          clock,
+        })
+      );
+
+      return { service, clock };
+    }
+
+    test('keeps the existing jobs', async (t) => {
+      const { service } = await openBaseline();
+      t.after(() => service.stop());
+
+      await service.start();
+
+      const { jobs } = await service.list({ orderBy: 'next_run' });
+      assert.deepEqual(
+        jobs.map((job) => [job.identifier, job.schedule_type, job.status]),
+        [
+          ['hourly', 'cron', 'active'],
+          ['daily-report', 'cron', 'paused'],
+          ['reminder', 'once', 'active'],
+        ]
+      );
+      assert.equal(jobs.length, BASELINE_JOBS.length);
+    });
+
+    test('schedules and runs a job with a named handler', async (t) => {
+      const { service, clock } = await openBaseline();
+      t.after(() => service.stop());
+
+      const payloads: unknown[] = [];
+      service.define<{ to: string }>('send-digest', (payload) => {
+        payloads.push(payload);
+      });
+      await service.start();
+
+      await service.schedule('30 * * * *', 'digest', 'send-digest', {
+        payload: { to: 'ops' },
+        tags: ['reports'],
+      });
+      await clock.advanceBy(2 * HOUR);
+
+      assert.deepEqual(payloads, [{ to: 'ops' }, { to: 'ops' }]);
+
+      const job = await service.get('digest');
+      assert.equal(job?.handler_name, 'send-digest');
+      assert.deepEqual(job?.tags, ['reports']);
+      assert.equal(job?.run_count, 2);
+
+      const runs = await service.getJobHistory('digest');
+      assert.deepEqual(
+        runs.map((run) => run.outcome),
+        ['success', 'success']
+      );
+    });
+
+    test('dead-letters and requeues a failed one-time job', async (t) => {
+      const { service, clock } = await openBaseline({
+        retry: { maxAttempts: 1 },
+      });
+      t.after(() => service.stop());
+
+      let failing = true;
+      service.define('deliver', () => {
+        if (failing) throw new Error('Delivery failed');
+      });
+      const deadLettered: string[] = [];
+      service.on('job:dead-lettered', ({ identifier }) => {
+        deadLettered.push(identifier);
+      });
+      await service.start();
+
+      await service.schedule(START + HOUR, 'delivery', 'deliver');
+      await clock.advanceBy(HOUR);
+
+      assert.deepEqual(deadLettered, ['delivery']);
+      assert.equal((await service.get('delivery'))?.status, 'failed');
+
+      const { jobs } = await service.listDeadLetters();
+      assert.deepEqual(
+        jobs.map((job) => job.identifier),
+        ['delivery']
+      );
+
+      failing = false;
+      await service.requeue('delivery');
+      await clock.advanceBy(0);
+
+      const job = await service.get('delivery');
+      assert.equal(job?.status, 'completed');
+      assert.equal(job?.consecutive_failures, 0);
+    });
+  }
+);
+
+describe('SqliteDriver', { skip: skipWithoutSqlite }, () => {
+  const databases = createTempDatabases();
+  after(() => databases.cleanup());
+
+  test('reopens the database when used after stop()', async (t) => {
+    const clock = new VirtualClock(START);
+    const service = new CronService(
+      new SqliteDriver({ db: databases.path(), clock, timezone: 'UTC' })
+    );
+    t.after(() => service.stop());
+
+    let runs = 0;
+    service.define('count', () => {
+      runs++;
+    });
+    await service.schedule('0 * * * *', 'hourly', 'count');
+    await service.stop();
+
+    // Reading after stop() reopens the closed database
+    assert.equal((await service.get('hourly'))?.status, 'active');
+
+    await service.start();
+    await clock.advanceBy(HOUR);
+    assert.equal(runs, 1);
+  });
+
+  test('runs a pending retry after a restart', async (t) => {
+    const path = databases.path();
+    const clock = new VirtualClock(START);
+    const config = {
+      db: path,
+      clock,
+      timezone: 'UTC',
+      onError: () => {},
+      retry: {
+        maxAttempts: 2,
+        strategy: 'fixed' as const,
+        baseDelay: 10 * MINUTE,
+        maxDelay: 10 * MINUTE,
+      },
+    };
+    const attempts: [number, number][] = [];
+    const deliver = (_payload: unknown, { attempt }: { attempt: number }) => {
+      attempts.push([attempt, clock.now()]);
+      if (attempt === 1) throw new Error('Delivery failed');
+    };
+
+    const first = new CronService(new SqliteDriver(config));
+    t.after(() => first.stop());
+    first.define('deliver', deliver);
+    await first.schedule(START + HOUR, 'delivery', 'deliver');
+    await clock.advanceBy(HOUR);
+    await first.stop();
+
+    const pending = await first.get('delivery');
+    assert.equal(pending?.retry_at, START + HOUR + 10 * MINUTE);
+    assert.equal(pending?.retry_attempt, 2);
+
+    // A new process picks the retry up from the database
+    const second = new CronService(new SqliteDriver(config));
+    t.after(() => second.stop());
+    second.define('deliver', deliver);
+    await second.start();
+    await clock.advanceBy(10 * MINUTE);
+
+    assert.deepEqual(attempts, [
+      [1, START + HOUR],
+      [2, START + HOUR + 10 * MINUTE],
+    ]);
+    const job = await second.get('delivery');
+    assert.equal(job?.status, 'completed');
+    assert.equal(job?.retry_at, null);
+  });
+});
+
+describe(
+  'SqliteDriver with several workers',
+  { skip: skipWithoutSqlite },
+  () => {
+    const databases = createTempDatabases();
+    after(() => databases.cleanup());
+
+    function createWorker(path: string, workerId: string, clock: VirtualClock) {
+      return new CronService(
+        new SqliteDriver({
+          db: path,
+          clock,
+          workerId,
+          timezone: 'UTC',
+          autoCleanup: { enabled: false },
+        })
+      );
+    }
+
+    test('runs every occurrence on a single worker', async (t) => {
+      const path = databases.path();
+      const clock = new VirtualClock(START);
+      const first = createWorker(path, 'worker-a', clock);
+      const second = createWorker(path, 'worker-b', clock);
+      t.after(() => Promise.all([first.stop(), second.stop()]));
+
+      const runs: number[] = [];
+      for (const service of [first, second]) {
+        service.define('count', (_payload, { scheduledFor }) => {
+          runs.push(scheduledFor);
+        });
+      }
+      await first.schedule('0 * * * *', 'hourly', 'count');
+      await second.start();
+
+      await clock.advanceBy(3 * HOUR);
+
+      assert.deepEqual(runs, [
+        START + HOUR,
+        START + 2 * HOUR,
+        START + 3 * HOUR,
+      ]);
+      assert.equal((await first.get('hourly'))?.run_count, 3);
+    });
+
+    test('takes over a job whose lease expired', async (t) => {
+      const path = databases.path();
+      const clock = new VirtualClock(START);
+      const service = createWorker(path, 'worker-a', clock);
+      t.after(() => service.stop());
+
+      const runs: number[] = [];
+      service.define('count', () => {
+        runs.push(clock.now());
+      });
+      await service.schedule('0 * * * *', 'hourly', 'count');
+      await service.stop();
+
+      // A worker that crashed while running the job left its lease behind
+      const { DatabaseSync } = await import('node:sqlite');
+      const db = new DatabaseSync(path);
+      db.prepare(
+        /* sql */ `
+        UPDATE cron_jobs SET lease_owner = ?, lease_expires_at = ?
+        WHERE identifier = ?
+      `
+      ).run('crashed-worker', START + HOUR + 5 * MINUTE, 'hourly');
+      db.close();
+
+      await service.start();
+      await clock.advanceBy(HOUR);
+      assert.deepEqual(runs, []);
+
+      await clock.advanceBy(5 * MINUTE);
+      assert.deepEqual(runs, [START + HOUR + 5 * MINUTE]);
+
+      const job = await service.get('hourly');
+      assert.equal(job?.next_run, START + 2 * HOUR);
+      assert.equal(job?.run_count, 1);
+    });
+  }
+);
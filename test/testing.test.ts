@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createTestScheduler, MemoryDriver, VirtualClock } from '../src';
+
+const START = Date.UTC(2030, 0, 1);
+const HOUR = 60 * 60 * 1000;
+
+test('createTestScheduler() runs a started service on virtual time', async (t) => {
+  const scheduler = await createTestScheduler({
+    now: new Date(START),
+    config: { timezone: 'UTC' },
+  });
+  t.after(() => scheduler.service.stop());
+
+  assert.ok(scheduler.driver instanceof MemoryDriver);
+  assert.ok(scheduler.clock instanceof VirtualClock);
+  assert.equal(scheduler.now(), START);
+
+  const runs: number[] = [];
+  await scheduler.service.schedule('0 * * * *', 'hourly', () => {
+    runs.push(scheduler.now());
+  });
+
+  await scheduler.advanceBy(2 * HOUR);
+  await scheduler.advanceTo(new Date(START + 3 * HOUR));
+
+  assert.deepEqual(runs, [START + HOUR, START + 2 * HOUR, START + 3 * HOUR]);
+  assert.equal(scheduler.clock.now(), START + 3 * HOUR);
+});
+
+test('createTestScheduler() starts at the current time by default', async (t) => {
+  const before = Date.now();
+  const scheduler = await createTestScheduler();
+  t.after(() => scheduler.service.stop());
+
+  assert.ok(scheduler.now() >= before);
+  assert.ok(scheduler.now() <= Date.now());
+});
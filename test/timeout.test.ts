@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createTestScheduler, JobTimeoutError } from '../src';
+import { sleep } from './helpers';
+
+const START = Date.UTC(2030, 0, 1);
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+test('aborts an attempt that exceeds its timeout and retries it', async (t) => {
+  const scheduler = await createTestScheduler({
+    now: START,
+    config: { timezone: 'UTC', onError: () => {} },
+  });
+  t.after(() => scheduler.service.stop());
+
+  const attempts: { attempt: number; at: number; aborted?: unknown }[] = [];
+  await scheduler.service.schedule(
+    START + HOUR,
+    'slow',
+    async (_payload, { attempt, signal }) => {
+      const record: (typeof attempts)[number] = {
+        attempt,
+        at: scheduler.now(),
+      };
+      attempts.push(record);
+      if (attempt > 1) return;
+
+      try {
+        await sleep(scheduler.clock, 10 * MINUTE, signal);
+      } catch (error) {
+        record.aborted = error;
+        throw error;
+      }
+    },
+    {
+      timeout: 5 * MINUTE,
+      retry: {
+        maxAttempts: 2,
+        strategy: 'fixed',
+        baseDelay: MINUTE,
+        maxDelay: MINUTE,
+      },
+    }
+  );
+
+  const retries: Error[] = [];
+  scheduler.service.on('job:retry', ({ error }) => {
+    retries.push(error);
+  });
+
+  await scheduler.advanceBy(HOUR + 5 * MINUTE);
+
+  assert.equal(retries.length, 1);
+  assert.ok(retries[0] instanceof JobTimeoutError);
+  assert.equal(retries[0].timeout, 5 * MINUTE);
+  assert.equal(attempts[0].aborted, retries[0]);
+
+  await scheduler.advanceBy(MINUTE);
+
+  assert.deepEqual(
+    attempts.map(({ attempt, at }) => [attempt, at]),
+    [
+      [1, START + HOUR],
+      [2, START + HOUR + 6 * MINUTE],
+    ]
+  );
+  assert.equal((await scheduler.service.get('slow'))?.status, 'completed');
+});